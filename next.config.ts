@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // kuromoji and sql.js read their dictionary and wasm files from disk at
+  // runtime, so load them from node_modules instead of bundling them
+  serverExternalPackages: ["kuromoji", "sql.js"],
 };
 
 export default nextConfig;
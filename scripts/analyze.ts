@@ -0,0 +1,210 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { analyzeText, type AnalysisResult, type PosCategory, type WordGroup } from '../src/lib/analysis';
+import { ALL_GROUPS, ALL_POS } from '../src/lib/analysis/pos';
+import { RANK_STRATEGIES, isRankStrategy, needsFrequencyData } from '../src/lib/analysis/rank';
+import type { LevelFilter } from '../src/lib/analysis/types';
+import { isJlptLevel } from '../src/lib/jlpt/levels';
+import { toDelimited } from '../src/lib/export/delimited';
+import { fetchArticle } from '../src/lib/fetch';
+import { getFrequencyData } from '../src/lib/frequency';
+import { extractFileText, formatFor } from '../src/lib/text';
+
+const USAGE = `Usage: npm run analyze -- [options] <url | file | directory | -> ...
+
+Extracts the most frequent vocabulary from each input. Use - to read text
+from stdin. Directories are searched recursively for .txt, .html, .srt, .vtt
+and .epub files.
+
+Options:
+  -n, --top <n>          words per group and input (default 20)
+  -p, --pos <list>       comma-separated: ${ALL_POS.join(',')} (default all)
+  -g, --groups <list>    comma-separated: ${ALL_GROUPS.join(',')} (default all)
+  -c, --candidates <n>   words to look up before giving up on filling --top
+                         (default twice --top, at least 50)
+  -m, --min-count <n>    skip words seen fewer than n times (default 1)
+  -r, --rank <strategy>  ${RANK_STRATEGIES.join(', ')} (default count)
+  -l, --levels <list>    comma-separated JLPT levels to keep, e.g. N3,N2,unlisted
+  -f, --format <fmt>     json, csv or tsv (default json)
+  -o, --output <file>    write to a file instead of stdout
+      --full-page        analyze whole pages instead of the main article
+  -h, --help             show this help
+`;
+
+type Format = 'json' | 'csv' | 'tsv';
+
+// The reader text is only needed by the web UI
+interface SourceResult extends Omit<AnalysisResult, 'reader'> {
+  source: string;
+}
+
+const readStdin = async () => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+// Expands directories into the supported files they contain
+async function expandInputs(inputs: string[]): Promise<string[]> {
+  const expanded: string[] = [];
+  for (const input of inputs) {
+    if (input === '-' || /^https?:\/\//i.test(input)) {
+      expanded.push(input);
+      continue;
+    }
+    const stat = await fs.stat(input);
+    if (stat.isDirectory()) {
+      const entries = await fs.readdir(input, { recursive: true });
+      expanded.push(...entries
+        .map(entry => path.join(input, entry))
+        .filter(file => formatFor(file))
+        .sort());
+    } else {
+      expanded.push(input);
+    }
+  }
+  return expanded;
+}
+
+async function loadText(input: string, fullPage: boolean) {
+  if (input === '-') {
+    return { text: await readStdin(), article: { title: 'stdin', byline: '', publishedAt: '' } };
+  }
+  if (/^https?:\/\//i.test(input)) {
+    const { content, title, byline, publishedAt } = await fetchArticle(input, fullPage ? 'full' : 'article');
+    return { text: content, article: { title, byline, publishedAt } };
+  }
+  const { content, title } = await extractFileText(path.basename(input), new Uint8Array(await fs.readFile(input)));
+  return { text: content, article: { title, byline: '', publishedAt: '' } };
+}
+
+const COLUMNS = ['source', 'title', 'rank', 'word', 'reading', 'count', 'score', 'part_of_speech', 'group', 'jlpt', 'frequency_band', 'common', 'definition', 'origin', 'example'];
+
+function formatResults(results: SourceResult[], format: Format): string {
+  if (format === 'json') {
+    return JSON.stringify(results, null, 2) + '\n';
+  }
+
+  const rows = results.flatMap(({ source, article, words }) =>
+    words.map((word, index) => [
+      source,
+      article.title,
+      index + 1,
+      word.word,
+      word.reading,
+      word.count,
+      word.score,
+      word.partOfSpeech,
+      word.group || 'vocabulary',
+      word.level || '',
+      word.frequencyBand || '',
+      word.common ? 'yes' : 'no',
+      word.definition,
+      word.origin ? `${word.origin.word} (${word.origin.language})` : '',
+      word.examples[0]?.text || '',
+    ])
+  );
+  return toDelimited([COLUMNS, ...rows], format === 'tsv' ? '\t' : ',');
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      top: { type: 'string', short: 'n', default: '20' },
+      pos: { type: 'string', short: 'p' },
+      groups: { type: 'string', short: 'g' },
+      candidates: { type: 'string', short: 'c' },
+      'min-count': { type: 'string', short: 'm', default: '1' },
+      rank: { type: 'string', short: 'r', default: 'count' },
+      levels: { type: 'string', short: 'l' },
+      format: { type: 'string', short: 'f', default: 'json' },
+      output: { type: 'string', short: 'o' },
+      'full-page': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    process.stderr.write(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const format = values.format as Format;
+  if (!['json', 'csv', 'tsv'].includes(format)) {
+    throw new Error(`Unknown format: ${format}`);
+  }
+
+  const pos = values.pos
+    ? values.pos.split(',').map(value => value.trim()) as PosCategory[]
+    : ALL_POS;
+  const unknownPos = pos.filter(value => !ALL_POS.includes(value));
+  if (unknownPos.length > 0) {
+    throw new Error(`Unknown part of speech: ${unknownPos.join(', ')}`);
+  }
+
+  const groups = values.groups
+    ? values.groups.split(',').map(value => value.trim()) as WordGroup[]
+    : ALL_GROUPS;
+  const unknownGroups = groups.filter(value => !ALL_GROUPS.includes(value));
+  if (unknownGroups.length > 0) {
+    throw new Error(`Unknown word group: ${unknownGroups.join(', ')}`);
+  }
+
+  if (!isRankStrategy(values.rank)) {
+    throw new Error(`Unknown ranking strategy: ${values.rank}`);
+  }
+  if (needsFrequencyData(values.rank) && !(await getFrequencyData()).source) {
+    throw new Error(`--rank ${values.rank} needs reference frequencies; build them with npm run build-frequency`);
+  }
+
+  const levels = values.levels
+    ? values.levels.split(',').map(value => value.trim()) as LevelFilter[]
+    : undefined;
+  const unknownLevels = (levels || []).filter(value => !isJlptLevel(value) && value !== 'unlisted');
+  if (unknownLevels.length > 0) {
+    throw new Error(`Unknown JLPT level: ${unknownLevels.join(', ')}`);
+  }
+
+  const limit = Number(values.top) || 20;
+  const options = {
+    pos,
+    groups,
+    limit,
+    candidates: Number(values.candidates) || Math.max(50, limit * 2),
+    minCount: Number(values['min-count']) || 1,
+    rank: values.rank,
+    levels,
+  };
+
+  const results: SourceResult[] = [];
+  let failures = 0;
+  for (const input of await expandInputs(positionals)) {
+    try {
+      const { text, article } = await loadText(input, values['full-page'] as boolean);
+      const { words, noDefinition, levels, kanji, report } = await analyzeText(text, article, options);
+      results.push({ source: input, article, words, noDefinition, levels, kanji, report });
+      process.stderr.write(`Analyzed ${input}\n`);
+    } catch (err) {
+      failures += 1;
+      process.stderr.write(`Failed to analyze ${input}: ${err instanceof Error ? err.message : err}\n`);
+    }
+  }
+
+  const output = formatResults(results, format);
+  if (values.output) {
+    await fs.writeFile(values.output, output);
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (failures > 0) process.exit(1);
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
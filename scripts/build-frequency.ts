@@ -0,0 +1,71 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { lemmaOf, wordGroupOf } from '../src/lib/analysis/count';
+import { categorizeToken } from '../src/lib/analysis/pos';
+import { getTokenizer } from '../src/lib/analysis/tokenizer';
+import { DEFAULT_FREQUENCY_DIR, writeFrequencyData } from '../src/lib/frequency';
+import { extractFileText, formatFor } from '../src/lib/text';
+
+// Usage: npm run build-frequency -- <corpus dir> [output dir]
+//
+// Every supported file under the corpus directory (.txt, .html, .srt, .vtt,
+// .epub) counts as one reference document. The directory's name is recorded
+// as the source, so name it after the corpus.
+//
+// Writes ranks.txt (every word by total count, most frequent first) and
+// documents.json (the number of documents each word appears in).
+async function main() {
+  const [input, output = DEFAULT_FREQUENCY_DIR] = process.argv.slice(2);
+  if (!input) {
+    console.error('Usage: npm run build-frequency -- <corpus dir> [output dir]');
+    process.exit(1);
+  }
+
+  const files = (await fs.readdir(input, { recursive: true }))
+    .map(entry => path.join(input, entry))
+    .filter(file => formatFor(file))
+    .sort();
+  if (files.length === 0) {
+    console.error(`No supported files found in ${input}`);
+    process.exit(1);
+  }
+
+  const tokenizer = await getTokenizer();
+  const df: Record<string, number> = {};
+  const totals = new Map<string, number>();
+  let documents = 0;
+
+  for (const file of files) {
+    try {
+      const { content } = await extractFileText(path.basename(file), new Uint8Array(await fs.readFile(file)));
+      const lemmas = tokenizer.tokenize(content)
+        .filter(token => categorizeToken(token))
+        .map(token => ({ token, lemma: lemmaOf(token) }))
+        .filter(({ token, lemma }) => wordGroupOf(token, lemma))
+        .map(({ lemma }) => lemma);
+      lemmas.forEach(lemma => totals.set(lemma, (totals.get(lemma) || 0) + 1));
+      new Set(lemmas).forEach(lemma => {
+        df[lemma] = (df[lemma] || 0) + 1;
+      });
+      documents += 1;
+    } catch (err) {
+      console.error(`Skipping ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const ranks = Array.from(totals)
+    .sort(([, a], [, b]) => b - a)
+    .map(([lemma]) => lemma);
+  await writeFrequencyData({
+    source: path.basename(path.resolve(input)),
+    builtAt: new Date().toISOString(),
+    documents,
+    df,
+  }, ranks, path.resolve(output));
+  console.log(`Counted ${Object.keys(df).length} words across ${documents} documents.`);
+}
+
+main().catch(err => {
+  console.error('Build failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+import { createReadStream } from 'fs';
+import path from 'path';
+import { createGunzip } from 'zlib';
+import { parseJmdictPriorities } from '../src/lib/dictionary/jmdict';
+import { DEFAULT_FREQUENCY_DIR, rankByNewsFrequency, writeRankList } from '../src/lib/frequency';
+
+// Usage: npm run import-frequency -- <JMdict_e.xml[.gz]> [output dir]
+//
+// Writes ranks.txt from the newspaper frequency sets (nf01-nf48) JMdict
+// records for its most frequent words. Only the XML distribution carries
+// them.
+async function main() {
+  const [input, output = DEFAULT_FREQUENCY_DIR] = process.argv.slice(2);
+  if (!input) {
+    console.error('Usage: npm run import-frequency -- <JMdict_e.xml[.gz]> [output dir]');
+    process.exit(1);
+  }
+
+  const forms = [];
+  const stream = createReadStream(path.resolve(input));
+  for await (const form of parseJmdictPriorities(input.endsWith('.gz') ? stream.pipe(createGunzip()) : stream)) {
+    forms.push(form);
+  }
+
+  const ranks = rankByNewsFrequency(forms);
+  await writeRankList(
+    ranks,
+    `JMdict newspaper frequency sets (${path.basename(input)}), EDRDG, CC BY-SA 4.0`,
+    path.resolve(output),
+    'By frequency set (500 words each), then by other JMdict priority markers'
+  );
+  console.log(`Ranked ${ranks.length} words.`);
+}
+
+main().catch(err => {
+  console.error('Import failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,22 @@
+import path from 'path';
+import { readJmdictFile } from '../src/lib/dictionary/jmdict';
+import { DEFAULT_STORE_DIR, writeStore } from '../src/lib/dictionary/store';
+
+// Usage: npm run import-jmdict -- <JMdict_e.xml[.gz] | jmdict-eng.json[.gz]> [output dir]
+async function main() {
+  const [input, output = process.env.DICTIONARY_PATH || DEFAULT_STORE_DIR] = process.argv.slice(2);
+  if (!input) {
+    console.error('Usage: npm run import-jmdict -- <jmdict file> [output dir]');
+    process.exit(1);
+  }
+
+  console.log(`Importing ${input} into ${output}...`);
+  const entries = await readJmdictFile(path.resolve(input));
+  const meta = await writeStore(entries, path.resolve(output), path.basename(input));
+  console.log(`Imported ${meta.entryCount} entries into ${meta.shardCount} shards.`);
+}
+
+main().catch(err => {
+  console.error('Import failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+import path from 'path';
+import { DEFAULT_KANJI_PATH, writeKanjiData } from '../src/lib/kanji';
+import { readKanjidicFile } from '../src/lib/kanji/kanjidic';
+
+// Usage: npm run import-kanjidic -- <kanjidic2.xml[.gz]> [output file]
+async function main() {
+  const [input, output = DEFAULT_KANJI_PATH] = process.argv.slice(2);
+  if (!input) {
+    console.error('Usage: npm run import-kanjidic -- <kanjidic2 file> [output file]');
+    process.exit(1);
+  }
+
+  console.log(`Importing ${input} into ${output}...`);
+  const count = await writeKanjiData(readKanjidicFile(path.resolve(input)), path.resolve(output));
+  console.log(`Imported ${count} kanji.`);
+}
+
+main().catch(err => {
+  console.error('Import failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,177 @@
+import { NextResponse } from 'next/server';
+import {
+  analyzeText,
+  type AnalyzeEvent,
+  type AnalyzeOptions,
+  type ArticleInfo,
+  type LevelFilter,
+  type PosCategory,
+  type RankStrategy,
+  type WordGroup,
+} from '@/lib/analysis';
+import { ALL_GROUPS, ALL_POS } from '@/lib/analysis/pos';
+import { RANK_OPTIONS, isRankStrategy, needsFrequencyData } from '@/lib/analysis/rank';
+import { FETCH_ERROR_STATUS, FetchError, fetchArticle } from '@/lib/fetch';
+import { getFrequencyData } from '@/lib/frequency';
+import { isJlptLevel } from '@/lib/jlpt';
+
+interface AnalyzeRequest {
+  // Either a page to fetch...
+  url?: string;
+  mode?: 'article' | 'full';
+  // ...or text to analyze directly, with an optional title
+  text?: string;
+  title?: string;
+  pos?: PosCategory[];
+  groups?: WordGroup[];
+  limit?: number;
+  candidates?: number;
+  minCount?: number;
+  exclude?: string[];
+  rank?: RankStrategy;
+  levels?: LevelFilter[];
+  known?: string[];
+  // Leave the known words out of the results too
+  hideKnown?: boolean;
+  // Respond with newline-delimited progress events
+  stream?: boolean;
+}
+
+const MAX_LIMIT = 500;
+const MAX_CANDIDATES = 1000;
+
+const stringList = (value: unknown) => Array.isArray(value)
+  ? value.filter((word): word is string => typeof word === 'string')
+  : undefined;
+
+const parseOptions = (body: AnalyzeRequest): AnalyzeOptions => ({
+  pos: Array.isArray(body.pos) ? body.pos.filter(pos => ALL_POS.includes(pos)) : undefined,
+  groups: Array.isArray(body.groups) ? body.groups.filter(group => ALL_GROUPS.includes(group)) : undefined,
+  limit: Number(body.limit) > 0 ? Math.min(Number(body.limit), MAX_LIMIT) : undefined,
+  candidates: Number(body.candidates) > 0 ? Math.min(Number(body.candidates), MAX_CANDIDATES) : undefined,
+  minCount: Number(body.minCount) > 0 ? Number(body.minCount) : undefined,
+  exclude: body.hideKnown
+    ? [...(stringList(body.exclude) || []), ...(stringList(body.known) || [])]
+    : stringList(body.exclude),
+  rank: isRankStrategy(body.rank) ? body.rank : undefined,
+  levels: Array.isArray(body.levels)
+    ? body.levels.filter(level => isJlptLevel(level) || level === 'unlisted')
+    : undefined,
+  known: stringList(body.known),
+});
+
+// Text is analyzed as given; a url is fetched first
+async function loadText(body: AnalyzeRequest, signal?: AbortSignal): Promise<{ text: string; article: ArticleInfo }> {
+  if (typeof body.text === 'string' && body.text.trim()) {
+    return { text: body.text, article: { title: body.title || '', byline: '', publishedAt: '' } };
+  }
+  const { content, title, byline, publishedAt } = await fetchArticle(
+    body.url,
+    body.mode === 'full' ? 'full' : 'article',
+    signal
+  );
+  return { text: content, article: { title, byline, publishedAt } };
+}
+
+const errorBody = (err: unknown) => err instanceof FetchError
+  ? { error: err.message, code: err.code, upstreamStatus: err.upstreamStatus }
+  : { error: 'Failed to analyze text', code: 'ANALYSIS_FAILED' };
+
+// Streams newline-delimited AnalyzeEvents. Closing the connection aborts the
+// page fetch and any dictionary lookups not yet started.
+function streamAnalysis(body: AnalyzeRequest, options: AnalyzeOptions, requestSignal: AbortSignal): Response {
+  const controller = new AbortController();
+  requestSignal.addEventListener('abort', () => controller.abort(), { once: true });
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(output) {
+      const send = (event: AnalyzeEvent) => {
+        if (!controller.signal.aborted) {
+          output.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        }
+      };
+      try {
+        if (!(typeof body.text === 'string' && body.text.trim())) {
+          send({ type: 'progress', stage: 'fetching' });
+        }
+        const { text, article } = await loadText(body, controller.signal);
+        const result = await analyzeText(text, article, options, {
+          signal: controller.signal,
+          onProgress: progress => send({ type: 'progress', ...progress }),
+          onWord: word => send({ type: 'word', word }),
+        });
+        send({ type: 'result', result });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        if (err instanceof FetchError) {
+          console.warn(`Fetch error (${err.code}):`, err.message);
+        } else {
+          console.error('Analysis error:', err);
+        }
+        send({ type: 'error', ...errorBody(err) });
+      }
+      if (!controller.signal.aborted) output.close();
+    },
+    cancel() {
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' },
+  });
+}
+
+// POST { url } or { text } -> { article, words, ... }. With "stream": true the
+// response is instead a stream of progress events, each word as it resolves
+// and finally the whole result.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json() as AnalyzeRequest;
+    const options = parseOptions(body);
+
+    if (options.pos && options.pos.length === 0) {
+      return NextResponse.json(
+        { error: 'Select at least one part of speech', code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    if (options.groups && options.groups.length === 0) {
+      return NextResponse.json(
+        { error: 'Select at least one group of words', code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    if (options.rank && needsFrequencyData(options.rank) && !(await getFrequencyData()).source) {
+      const { label } = RANK_OPTIONS.find(({ value }) => value === options.rank)!;
+      return NextResponse.json(
+        { error: `"${label}" needs reference frequencies; build them with npm run build-frequency`, code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    if (!(typeof body.text === 'string' && body.text.trim()) && !body.url) {
+      return NextResponse.json(
+        { error: 'Provide either a url or text to analyze', code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    if (body.stream) {
+      return streamAnalysis(body, options, request.signal);
+    }
+
+    const { text, article } = await loadText(body);
+    return NextResponse.json(await analyzeText(text, article, options));
+  } catch (err) {
+    if (err instanceof FetchError) {
+      console.warn(`Fetch error (${err.code}):`, err.message);
+      return NextResponse.json(errorBody(err), { status: FETCH_ERROR_STATUS[err.code] });
+    }
+    console.error('Analysis error:', err);
+    return NextResponse.json(errorBody(err), { status: 500 });
+  }
+}
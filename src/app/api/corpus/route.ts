@@ -0,0 +1,90 @@
+import { NextResponse } from 'next/server';
+import { analyzeCorpus, type CorpusDocument, type PosCategory } from '@/lib/analysis';
+import { ALL_POS } from '@/lib/analysis/pos';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { FETCH_ERROR_STATUS, FetchError, fetchArticle, fetchFeedLinks } from '@/lib/fetch';
+
+interface CorpusRequest {
+  // Article URLs to compare...
+  urls?: string[];
+  // ...or a feed whose latest articles are compared
+  feed?: string;
+  mode?: 'article' | 'full';
+  pos?: PosCategory[];
+  limit?: number;
+  exclude?: string[];
+}
+
+const MAX_ARTICLES = 20;
+const MAX_LIMIT = 500;
+const FETCH_CONCURRENCY = 3;
+
+// POST { urls } or { feed } -> { articles, words, shared, coverageCurve, failed }.
+// Articles that fail to fetch are listed in `failed` and left out.
+export async function POST(request: Request) {
+  try {
+    const body = await request.json() as CorpusRequest;
+    const pos = Array.isArray(body.pos) ? body.pos.filter(value => ALL_POS.includes(value)) : undefined;
+    if (pos && pos.length === 0) {
+      return NextResponse.json(
+        { error: 'Select at least one part of speech', code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    const urls = body.feed
+      ? (await fetchFeedLinks(body.feed)).slice(0, MAX_ARTICLES)
+      : Array.isArray(body.urls)
+        ? Array.from(new Set(body.urls.filter((url): url is string => typeof url === 'string' && url.trim() !== '')))
+        : [];
+    if (urls.length === 0 || urls.length > MAX_ARTICLES) {
+      return NextResponse.json(
+        { error: `Provide between 1 and ${MAX_ARTICLES} article URLs, or a feed`, code: 'INVALID_INPUT' },
+        { status: 400 }
+      );
+    }
+
+    const failed: { source: string; error: string }[] = [];
+    const documents = (await mapWithConcurrency(urls, FETCH_CONCURRENCY, async url => {
+      try {
+        const { content, title, byline, publishedAt } = await fetchArticle(
+          url.trim(),
+          body.mode === 'full' ? 'full' : 'article'
+        );
+        return { source: url, article: { title, byline, publishedAt }, text: content };
+      } catch (err) {
+        failed.push({ source: url, error: err instanceof Error ? err.message : 'Failed to fetch' });
+        return null;
+      }
+    })).filter((document): document is CorpusDocument => document !== null);
+
+    if (documents.length === 0) {
+      return NextResponse.json(
+        { error: 'None of the articles could be fetched', code: 'FETCH_FAILED', failed },
+        { status: 502 }
+      );
+    }
+
+    const result = await analyzeCorpus(documents, {
+      pos,
+      limit: Number(body.limit) > 0 ? Math.min(Number(body.limit), MAX_LIMIT) : undefined,
+      exclude: Array.isArray(body.exclude)
+        ? body.exclude.filter((word): word is string => typeof word === 'string')
+        : undefined,
+    });
+    return NextResponse.json({ ...result, failed });
+  } catch (err) {
+    if (err instanceof FetchError) {
+      console.warn(`Feed fetch error (${err.code}):`, err.message);
+      return NextResponse.json(
+        { error: err.message, code: err.code, upstreamStatus: err.upstreamStatus },
+        { status: FETCH_ERROR_STATUS[err.code] }
+      );
+    }
+    console.error('Corpus analysis error:', err);
+    return NextResponse.json(
+      { error: 'Failed to analyze articles', code: 'ANALYSIS_FAILED' },
+      { status: 500 }
+    );
+  }
+}
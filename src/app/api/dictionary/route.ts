@@ -1,60 +1,46 @@
 import { NextResponse } from 'next/server';
+import { lookupWord, lookupWords, summarizeEntry } from '@/lib/dictionary';
 
-interface JishoResponse {
-  japanese: {
-    reading?: string;
-  }[];
-  senses: {
-    english_definitions: string[];
-    parts_of_speech: string[];
-  }[];
-}
+const MAX_BATCH_SIZE = 200;
+
+const errorResult = {
+  definition: 'Error fetching definition',
+  reading: '',
+  extraReadings: 0,
+  partOfSpeech: 'noun'
+};
 
 export async function POST(request: Request) {
   try {
-    const { word } = await request.json();
-    const response = await fetch(
-      `https://jisho.org/api/v1/search/words?keyword=${encodeURIComponent(word)}`
-    );
-    const data = await response.json();
-    const firstResult = data.data[0] as JishoResponse;
-    
-    if (!firstResult) {
-      return NextResponse.json({ definition: 'No definition found' });
-    }
-
-    const readings = firstResult.japanese.map(j => j.reading).filter(Boolean);
-    const mainReading = readings[0];
-    const extraReadings = readings.length > 1 ? readings.length - 1 : 0;
+    const { word, words } = await request.json();
 
-    let partOfSpeech = firstResult.senses[0]?.parts_of_speech[0] || 'noun';
-    partOfSpeech = partOfSpeech.split(' ')[0].toLowerCase();
-    
-    if (partOfSpeech === 'verb') {
-      const verbType = firstResult.senses[0]?.parts_of_speech.find(
-        (pos: string) => pos.includes('ichidan') || pos.includes('godan')
-      );
-      if (verbType) {
-        partOfSpeech = verbType.includes('ichidan') ? 'ichidan verb' : 'godan verb';
+    // Batch mode: { words: string[] } -> { results: { [word]: lookup } }
+    if (Array.isArray(words)) {
+      if (words.length > MAX_BATCH_SIZE) {
+        return NextResponse.json(
+          { error: `A batch can contain at most ${MAX_BATCH_SIZE} words` },
+          { status: 400 }
+        );
       }
+
+      const unique = Array.from(new Set(words.filter((w): w is string => typeof w === 'string')));
+      const entries = await lookupWords(unique);
+      const results = Object.fromEntries(unique.map((w, i) => {
+        const entry = entries[i];
+        if (entry instanceof Error) {
+          console.error(`Dictionary error for ${w}:`, entry);
+          return [w, errorResult];
+        }
+        return [w, summarizeEntry(entry)];
+      }));
+
+      return NextResponse.json({ results });
     }
 
-    return NextResponse.json({
-      definition: firstResult.senses[0]?.english_definitions.join('; ') || 'No definition found',
-      reading: mainReading,
-      extraReadings,
-      partOfSpeech
-    });
+    const entry = await lookupWord(word);
+    return NextResponse.json(summarizeEntry(entry));
   } catch (err) {
     console.error('Dictionary error:', err);
-    return NextResponse.json(
-      { 
-        definition: 'Error fetching definition',
-        reading: '',
-        extraReadings: 0,
-        partOfSpeech: 'noun'
-      },
-      { status: 500 }
-    );
+    return NextResponse.json(errorResult, { status: 500 });
   }
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import type { WordResult } from '@/lib/analysis';
+import { exportWords, type ExportFormat } from '@/lib/export';
+import { DEFAULT_FIELDS, FIELD_SOURCES, fieldNameError, type NoteField } from '@/lib/export/fields';
+
+interface ExportRequest {
+  words: WordResult[];
+  format?: ExportFormat;
+  deckName?: string;
+  fields?: NoteField[];
+  sourceUrl?: string;
+}
+
+const FORMATS: ExportFormat[] = ['apkg', 'csv', 'tsv'];
+const SOURCES = FIELD_SOURCES.map(source => source.value);
+
+// POST { words, format, deckName, fields, sourceUrl } -> the export file
+export async function POST(request: Request) {
+  try {
+    const body = await request.json() as ExportRequest;
+
+    if (!Array.isArray(body.words) || body.words.length === 0) {
+      return NextResponse.json({ error: 'Nothing to export' }, { status: 400 });
+    }
+
+    const format = FORMATS.includes(body.format as ExportFormat) ? body.format as ExportFormat : 'apkg';
+    const fields = (Array.isArray(body.fields) ? body.fields : DEFAULT_FIELDS)
+      .filter(field => field && SOURCES.includes(field.source))
+      .map(field => ({ name: String(field.name || field.source).trim() || field.source, source: field.source }));
+
+    if (fields.length === 0) {
+      return NextResponse.json({ error: 'Select at least one field' }, { status: 400 });
+    }
+    const nameError = fieldNameError(fields);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+
+    const file = await exportWords(body.words, {
+      format,
+      deckName: body.deckName?.trim() || 'Luminos',
+      fields,
+      sourceUrl: body.sourceUrl || '',
+    });
+
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="anki_import.${file.extension}"`,
+      },
+    });
+  } catch (err) {
+    console.error('Export error:', err);
+    return NextResponse.json({ error: 'Failed to export words' }, { status: 500 });
+  }
+}
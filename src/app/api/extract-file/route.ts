@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { extractFileText, UnsupportedFileError } from '@/lib/text';
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+// Accepts a multipart upload with a "file" field and returns its plain text
+export async function POST(request: Request) {
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'No file uploaded', code: 'NO_FILE' },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json(
+        { error: `Files are limited to ${MAX_FILE_BYTES / 1024 / 1024} MB`, code: 'TOO_LARGE' },
+        { status: 413 }
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const extracted = await extractFileText(file.name, bytes);
+
+    return NextResponse.json(extracted);
+  } catch (err) {
+    if (err instanceof UnsupportedFileError) {
+      return NextResponse.json(
+        { error: err.message, code: 'UNSUPPORTED_FILE' },
+        { status: 415 }
+      );
+    }
+    console.error('File extraction error:', err);
+    return NextResponse.json(
+      { error: 'Failed to read file', code: 'UNREADABLE_FILE' },
+      { status: 500 }
+    );
+  }
+}
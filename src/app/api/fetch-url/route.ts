@@ -1,28 +1,28 @@
 import { NextResponse } from 'next/server';
-import * as cheerio from 'cheerio';
+import type { ExtractMode } from '@/lib/extract';
+import { FETCH_ERROR_STATUS, FetchError, fetchArticle } from '@/lib/fetch';
 
 export async function POST(request: Request) {
   try {
-    const { url } = await request.json();
+    const { url, mode = 'article' } = await request.json() as { url: unknown; mode?: ExtractMode };
 
-    const response = await fetch(url);
-    const html = await response.text();
-    
-    // Parse HTML and extract text content
-    const $ = cheerio.load(html);
-    
-    // Remove script and style elements
-    $('script, style').remove();
-    
-    // Get text content
-    const content = $('body').text().trim();
+    // Returns { mode, title, byline, publishedAt, paragraphs, content, encoding, url }.
+    // mode 'full' keeps the old behavior of taking all body text.
+    const article = await fetchArticle(url, mode === 'full' ? 'full' : 'article');
 
-    return NextResponse.json({ content });
+    return NextResponse.json(article);
   } catch (err) {
+    if (err instanceof FetchError) {
+      console.warn(`Fetch error (${err.code}):`, err.message);
+      return NextResponse.json(
+        { error: err.message, code: err.code, upstreamStatus: err.upstreamStatus },
+        { status: FETCH_ERROR_STATUS[err.code] }
+      );
+    }
     console.error('Fetch error:', err);
     return NextResponse.json(
-      { error: 'Failed to fetch URL' },
+      { error: 'Failed to fetch URL', code: 'FETCH_FAILED' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
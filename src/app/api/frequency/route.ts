@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getFrequencyData } from '@/lib/frequency';
+
+// GET -> { source, size }; source is null until reference frequencies are
+// built, and the rankings that need them can't be used
+export async function GET() {
+  try {
+    const { source, size } = await getFrequencyData();
+    return NextResponse.json({ source, size });
+  } catch (err) {
+    console.error('Frequency data error:', err);
+    return NextResponse.json({ error: 'Failed to load frequency data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getKanjiData, kanjiIn } from '@/lib/kanji';
+
+const MAX_TEXT_LENGTH = 1000;
+
+// POST { text } -> { results: { [kanji]: info } } for every kanji in the
+// text. Kanji missing from the data file are left out.
+export async function POST(request: Request) {
+  try {
+    const { text } = await request.json();
+    if (typeof text !== 'string' || text.length > MAX_TEXT_LENGTH) {
+      return NextResponse.json(
+        { error: `Provide the text to look up, at most ${MAX_TEXT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const data = await getKanjiData();
+    const results = Object.fromEntries(
+      kanjiIn(text).filter(char => data[char]).map(char => [char, data[char]])
+    );
+    return NextResponse.json({ results });
+  } catch (err) {
+    console.error('Kanji lookup error:', err);
+    return NextResponse.json({ error: 'Failed to look up kanji' }, { status: 500 });
+  }
+}
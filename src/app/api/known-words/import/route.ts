@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { ApkgFormatError, readApkgSortFields } from '@/lib/export/apkg';
+import { parseWordList } from '@/lib/storage/known-words';
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+const tooLarge = () => NextResponse.json(
+  { error: `Files are limited to ${MAX_FILE_BYTES / 1024 / 1024} MB` },
+  { status: 413 }
+);
+
+// Accepts an uploaded Anki package ("file") and returns the words on its
+// notes, for adding to the browser's known-words list
+export async function POST(request: Request) {
+  try {
+    // Refuse oversized uploads before the form is read into memory
+    if (Number(request.headers.get('content-length')) > MAX_FILE_BYTES) {
+      return tooLarge();
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return tooLarge();
+    }
+
+    const fields = await readApkgSortFields(new Uint8Array(await file.arrayBuffer()));
+    return NextResponse.json({ words: parseWordList(fields.join('\n')) });
+  } catch (err) {
+    if (err instanceof ApkgFormatError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error('Known words import error:', err);
+    return NextResponse.json({ error: 'Failed to read Anki package' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getPitchData } from '@/lib/pitch';
+
+// POST { word, reading } -> { accents: number[] }, empty when the word is not
+// in the accent list
+export async function POST(request: Request) {
+  try {
+    const { word, reading } = await request.json();
+    if (typeof word !== 'string' || !word || typeof reading !== 'string') {
+      return NextResponse.json({ error: 'Provide a word and its reading' }, { status: 400 });
+    }
+
+    const data = await getPitchData();
+    return NextResponse.json({ accents: data.lookup(word, reading) });
+  } catch (err) {
+    console.error('Pitch accent lookup error:', err);
+    return NextResponse.json({ error: 'Failed to look up pitch accent' }, { status: 500 });
+  }
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import React from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import CoverageCurve from '../components/CoverageCurve';
+import type { CorpusResult } from '@/lib/analysis/types';
+import { DatabaseBlockedError } from '@/lib/storage/db';
+import { getKnownWords } from '@/lib/storage/known-words';
+
+type SourceMode = 'urls' | 'feed';
+
+const SOURCE_MODES: { value: SourceMode; label: string }[] = [
+  { value: 'urls', label: 'Article links' },
+  { value: 'feed', label: 'RSS/Atom feed' },
+];
+
+interface CompareResult extends CorpusResult {
+  failed: { source: string; error: string }[];
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+export default function Compare() {
+  const [sourceMode, setSourceMode] = useState<SourceMode>('urls');
+  const [urls, setUrls] = useState('');
+  const [feed, setFeed] = useState('');
+  const [limit, setLimit] = useState(100);
+  const [hideKnown, setHideKnown] = useState(true);
+  const [knownWords, setKnownWords] = useState<string[]>([]);
+  const [result, setResult] = useState<CompareResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getKnownWords()
+      .then(setKnownWords)
+      .catch(err => {
+        console.error('Failed to load known words: ', err);
+        if (err instanceof DatabaseBlockedError) setError(err.message);
+      });
+  }, []);
+
+  const compare = async () => {
+    const urlList = urls.split(/\s+/).filter(Boolean);
+    if (sourceMode === 'urls' && urlList.length < 2) {
+      setError('Please enter at least two links, one per line');
+      return;
+    }
+    if (sourceMode === 'feed' && !feed.trim()) {
+      setError('Please enter a feed URL');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/corpus', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(sourceMode === 'feed' ? { feed: feed.trim() } : { urls: urlList }),
+          limit,
+          exclude: hideKnown ? knownWords : [],
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to analyze articles');
+      }
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to analyze articles');
+      console.error('Comparison error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <header className="h-[80px] flex items-center">
+        <div className="container mx-auto px-4 flex items-center justify-between">
+          <Link href="/" className="text-[20px] text-[#393939]">luminos.jp</Link>
+          <nav className="flex items-center gap-4">
+            <Link href="/" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Analyze
+            </Link>
+            <Link href="/review" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Review
+            </Link>
+            <Link href="/history" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              History
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8">
+        <div className="w-full max-w-[700px] mx-auto">
+          <div className="mb-4 flex justify-center gap-2">
+            {SOURCE_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setSourceMode(value)}
+                className={`h-[30px] px-4 rounded-full font-manrope text-[13px] transition-colors
+                          ${sourceMode === value
+                            ? 'bg-[#0D0C22] text-white'
+                            : 'text-[#0D0C22]/70 hover:bg-[#F3F3F6]'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {sourceMode === 'urls' ? (
+            <textarea
+              value={urls}
+              onChange={(e) => setUrls(e.target.value)}
+              placeholder="One article link per line (up to 20)..."
+              rows={6}
+              className="w-full rounded-[24px] bg-[#F3F3F6] text-[14px] font-manrope text-[#454548]
+                       placeholder-[#0D0C22]/70 px-[24px] py-[16px] resize-y focus:outline-none"
+            />
+          ) : (
+            <input
+              type="text"
+              value={feed}
+              onChange={(e) => setFeed(e.target.value)}
+              placeholder="Feed URL, e.g. https://www3.nhk.or.jp/rss/news/cat0.xml"
+              className="w-full h-[53px] rounded-full bg-[#F3F3F6] text-[14px] font-manrope text-[#0D0C22]/70
+                       placeholder-[#0D0C22]/70 px-[24px] focus:outline-none"
+            />
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center justify-center gap-3 font-manrope text-[12px] text-[#000000]/60">
+            <label className="flex items-center gap-2">
+              Top
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={limit}
+                onChange={(e) => setLimit(Math.max(1, Number(e.target.value) || 1))}
+                className="w-[64px] h-[26px] px-2 rounded-full bg-[#F3F3F6] border border-[#C8C8C8]"
+              />
+              words
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hideKnown}
+                onChange={(e) => setHideKnown(e.target.checked)}
+                className="accent-[#6565FF]"
+              />
+              Hide my {knownWords.length} known words
+            </label>
+            <button
+              onClick={compare}
+              disabled={loading}
+              className="h-[30px] px-5 rounded-full bg-[#6565FF] text-white text-[13px] disabled:opacity-60"
+            >
+              {loading ? 'Analyzing...' : 'Compare'}
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="mt-6 text-red-500 text-center">{error}</div>}
+
+        {loading && (
+          <div className="mt-6 flex flex-col items-center gap-4">
+            <div className="dot-pulse"></div>
+            <div className="text-blue-500">Fetching and analyzing articles... Please wait.</div>
+          </div>
+        )}
+
+        {result && !loading && (
+          <div className="mt-8 space-y-8">
+            {result.failed.length > 0 && (
+              <div className="text-xs text-yellow-700">
+                Skipped {result.failed.length} article{result.failed.length === 1 ? '' : 's'}:{' '}
+                {result.failed.map(({ source, error }) => `${source} (${error})`).join(', ')}
+              </div>
+            )}
+
+            <section>
+              <h2 className="text-sm text-gray-600 mb-2">Coverage curve</h2>
+              <div className="text-xs text-gray-500 mb-2">
+                Share of the running text across all {result.articles.length} articles that the most frequent words account for
+              </div>
+              <CoverageCurve points={result.coverageCurve} />
+            </section>
+
+            <section>
+              <h2 className="text-sm text-gray-600 mb-2">Articles</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-gray-600 border-b border-[#D9D9D9]">
+                    <tr>
+                      <th className="py-2 pr-4">Article</th>
+                      <th className="py-2 pr-4">Words</th>
+                      <th className="py-2 pr-4">Distinct</th>
+                      <th className="py-2 pr-4" title="Share of the article's running words that are in the word list">
+                        Coverage
+                      </th>
+                      <th className="py-2">Only in this article</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.articles.map(article => (
+                      <tr key={article.source} className="border-b border-[#F3F3F6] align-top">
+                        <td className="py-2 pr-4 max-w-[260px]">
+                          <a href={article.source} target="_blank" rel="noreferrer" className="text-[#0D0C22] hover:text-blue-600 underline underline-offset-4">
+                            {article.title}
+                          </a>
+                        </td>
+                        <td className="py-2 pr-4">{article.tokens}</td>
+                        <td className="py-2 pr-4">{article.distinct}</td>
+                        <td className="py-2 pr-4">{percent(article.coverage)}</td>
+                        <td className="py-2 text-xs text-[#393939]">{article.unique.join('、')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            {result.shared.length > 0 && (
+              <section>
+                <h2 className="text-sm text-gray-600 mb-2">In every article ({result.shared.length})</h2>
+                <div className="flex flex-wrap gap-2">
+                  {result.shared.map(word => (
+                    <span key={word} className="text-sm px-2 py-0.5 rounded bg-[#EDEDFF] text-[#3F3FCC]">
+                      {word}
+                    </span>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-sm text-gray-600 mb-2">Combined frequency</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-gray-600 border-b border-[#D9D9D9]">
+                    <tr>
+                      <th className="py-2 pr-4">#</th>
+                      <th className="py-2 pr-4">Word</th>
+                      <th className="py-2 pr-4">Count</th>
+                      <th className="py-2 pr-4">Articles</th>
+                      <th className="py-2">Definition</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.words.map(({ word, reading, definition, count, articles }, index) => (
+                      <tr key={word} className="border-b border-[#F3F3F6] align-top">
+                        <td className="py-2 pr-4 text-xs text-gray-500">{index + 1}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          <span className="font-bold text-[#0D0C22]">{word}</span>
+                          <span className="ml-1 text-xs text-gray-600">({reading})</span>
+                        </td>
+                        <td className="py-2 pr-4">{count}</td>
+                        <td className="py-2 pr-4">{articles}/{result.articles.length}</td>
+                        <td className="py-2 text-xs text-[#787878]">{definition || 'No definition found'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
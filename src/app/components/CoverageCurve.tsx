@@ -0,0 +1,57 @@
+import React from 'react';
+import type { CoveragePoint } from '@/lib/analysis/types';
+
+interface CoverageCurveProps {
+  points: CoveragePoint[];
+}
+
+const WIDTH = 400;
+const HEIGHT = 180;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 36 };
+const GRID = [0.25, 0.5, 0.75, 1];
+
+// Coverage against the number of top words, on a log scale since the first
+// few hundred words matter most
+export default function CoverageCurve({ points }: CoverageCurveProps) {
+  if (points.length === 0) return null;
+
+  const maxWords = Math.max(...points.map(({ words }) => words), 10);
+  const x = (words: number) =>
+    PADDING.left + (Math.log10(words) / Math.log10(maxWords)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (coverage: number) =>
+    PADDING.top + (1 - coverage) * (HEIGHT - PADDING.top - PADDING.bottom);
+  const path = [{ words: 1, coverage: 0 }, ...points]
+    .map(({ words, coverage }, index) => `${index === 0 ? 'M' : 'L'}${x(words).toFixed(1)},${y(coverage).toFixed(1)}`)
+    .join(' ');
+  // Axis labels closer together than this would overlap
+  const labelled = points.reduce<number[]>((kept, { words }) => {
+    const last = kept[kept.length - 1];
+    return last === undefined || x(words) - x(last) >= 18 ? [...kept, words] : kept;
+  }, []);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full max-w-[560px] font-manrope text-[9px]">
+      {GRID.map(share => (
+        <g key={share}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(share)} y2={y(share)} stroke="#F3F3F6" />
+          <text x={PADDING.left - 4} y={y(share) + 3} textAnchor="end" fill="#787878">
+            {share * 100}%
+          </text>
+        </g>
+      ))}
+      <path d={path} fill="none" stroke="#6565FF" strokeWidth={2} />
+      {points.map(({ words, coverage }) => (
+        <g key={words}>
+          <circle cx={x(words)} cy={y(coverage)} r={3} fill="#6565FF">
+            <title>{`Top ${words} words: ${Math.round(coverage * 100)}%`}</title>
+          </circle>
+          {labelled.includes(words) && (
+            <text x={x(words)} y={HEIGHT - 8} textAnchor="middle" fill="#787878">
+              {words}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,192 @@
+import React from 'react';
+import { useState } from 'react';
+import type { WordResult } from '@/lib/analysis/types';
+import type { ExportFormat } from '@/lib/export';
+import { DEFAULT_FIELDS, FIELD_SOURCES, fieldNameError, type FieldSource, type NoteField } from '@/lib/export/fields';
+import { saveFile } from '@/lib/save-file';
+
+interface ExportDialogProps {
+  words: WordResult[];
+  sourceUrl: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface FieldRow extends NoteField {
+  enabled: boolean;
+}
+
+const FORMATS: { value: ExportFormat; label: string; description: string; mimeType: string }[] = [
+  { value: 'apkg', label: 'Anki deck (.apkg)', description: 'Anki Deck Package', mimeType: 'application/apkg' },
+  { value: 'csv', label: 'CSV', description: 'CSV Files', mimeType: 'text/csv' },
+  { value: 'tsv', label: 'TSV', description: 'TSV Files', mimeType: 'text/tab-separated-values' },
+];
+
+export default function ExportDialog({
+  words,
+  sourceUrl,
+  isOpen,
+  onClose
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('apkg');
+  const [deckName, setDeckName] = useState('Luminos');
+  const [fields, setFields] = useState<FieldRow[]>(
+    DEFAULT_FIELDS.map(field => ({ ...field, enabled: true }))
+  );
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const updateField = (index: number, change: Partial<FieldRow>) => {
+    setFields(prev => prev.map((field, i) => (i === index ? { ...field, ...change } : field)));
+  };
+
+  const handleExport = async () => {
+    const selected = fields
+      .filter(field => field.enabled)
+      .map(({ name, source }) => ({ name: name.trim(), source }));
+
+    if (selected.length === 0) {
+      setError('Please select at least one field');
+      return;
+    }
+
+    const nameError = fieldNameError(selected);
+    if (nameError) {
+      setError(nameError);
+      return;
+    }
+
+    setExporting(true);
+    setError('');
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ words, format, deckName, fields: selected, sourceUrl }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export words');
+      }
+
+      const type = FORMATS.find(option => option.value === format)!;
+      await saveFile(await response.blob(), `anki_import.${format}`, {
+        description: type.description,
+        mimeType: type.mimeType,
+        extension: format,
+      });
+      onClose();
+    } catch (err) {
+      console.error('Export error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export words');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div 
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg p-4 sm:p-6 w-full max-w-[500px] mx-auto">
+        {/* Header */}
+        <div className="flex justify-between items-start mb-4">
+          <span className="text-xl font-bold">Export {words.length} words</span>
+          <button 
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {FORMATS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setFormat(value)}
+                className={`h-[30px] px-3 rounded-full font-manrope text-[12px] border transition-colors
+                          ${format === value
+                            ? 'bg-[#6565FF] border-[#6565FF] text-white'
+                            : 'bg-[#F3F3F6] border-[#C8C8C8] text-[#000000]/60 hover:bg-[#E5E5E5]'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {format === 'apkg' && (
+            <label className="block">
+              <span className="text-sm text-gray-600">Deck name</span>
+              <input
+                type="text"
+                value={deckName}
+                onChange={(e) => setDeckName(e.target.value)}
+                className="mt-1 w-full h-[36px] px-3 rounded-lg bg-[#F3F3F6] text-sm focus:outline-none"
+              />
+            </label>
+          )}
+
+          <div>
+            <div className="text-sm text-gray-600 mb-1">Note fields</div>
+            <div className="space-y-2 max-h-[40vh] overflow-y-auto">
+              {fields.map((field, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={field.enabled}
+                    onChange={(e) => updateField(index, { enabled: e.target.checked })}
+                    className="accent-[#6565FF]"
+                  />
+                  <input
+                    type="text"
+                    value={field.name}
+                    onChange={(e) => updateField(index, { name: e.target.value })}
+                    className="flex-1 min-w-0 h-[32px] px-2 rounded bg-[#F3F3F6] text-sm focus:outline-none"
+                  />
+                  <select
+                    value={field.source}
+                    onChange={(e) => updateField(index, { source: e.target.value as FieldSource })}
+                    className="h-[32px] px-2 rounded border border-[#D9D9D9] text-sm bg-white"
+                  >
+                    {FIELD_SOURCES.map(({ value, label }) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs text-gray-400 mt-1">
+              The first selected field is the front of the card.
+            </div>
+          </div>
+
+          {error && <div className="text-sm text-red-500">{error}</div>}
+
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="w-full h-[40px] rounded-full bg-[#6565FF] text-white font-manrope text-[14px]
+                     disabled:opacity-60"
+          >
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
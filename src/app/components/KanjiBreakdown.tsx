@@ -0,0 +1,76 @@
+import React from 'react';
+import { useEffect, useState } from 'react';
+import type { KanjiInfo } from '@/lib/kanji/types';
+
+interface KanjiBreakdownProps {
+  word: string;
+}
+
+interface KanjiCardProps {
+  info: KanjiInfo;
+  // Occurrences in the article, for the top-kanji grid
+  count?: number;
+}
+
+export function KanjiCard({ info, count }: KanjiCardProps) {
+  const details = [
+    `${info.strokes} strokes`,
+    info.grade && info.grade <= 6 ? `grade ${info.grade}` : '',
+    info.jlpt ? `JLPT ${info.jlpt}` : '',
+    count ? `×${count}` : '',
+  ].filter(Boolean);
+
+  return (
+    <div className="flex gap-3 rounded-lg border border-[#D9D9D9] p-3 bg-white">
+      <span className="text-3xl leading-none text-[#0D0C22]">{info.literal}</span>
+      <div className="min-w-0">
+        <div className="text-sm text-[#393939]">{info.meanings.join(', ')}</div>
+        {info.onyomi.length > 0 && (
+          <div className="text-xs text-gray-600">On: {info.onyomi.join('、')}</div>
+        )}
+        {info.kunyomi.length > 0 && (
+          <div className="text-xs text-gray-600">Kun: {info.kunyomi.join('、')}</div>
+        )}
+        <div className="text-[10px] text-gray-400 mt-0.5">{details.join(' · ')}</div>
+      </div>
+    </div>
+  );
+}
+
+// Looks up each kanji of the word when the modal opens
+export default function KanjiBreakdown({ word }: KanjiBreakdownProps) {
+  const [kanji, setKanji] = useState<KanjiInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setKanji([]);
+    fetch('/api/kanji', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: word }),
+    })
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled && data.results) {
+          setKanji(Object.values(data.results));
+        }
+      })
+      .catch(err => console.error('Failed to look up kanji: ', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [word]);
+
+  if (kanji.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-sm text-gray-600 mb-1">
+        Kanji
+      </div>
+      <div className="space-y-2">
+        {kanji.map(info => <KanjiCard key={info.literal} info={info} />)}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { useEffect, useState } from 'react';
+import * as wanakana from 'wanakana';
+import { pitchLevels, pitchPatternName, splitMorae } from '@/lib/pitch/pattern';
+
+interface PitchAccentProps {
+  word: string;
+  reading: string;
+}
+
+interface PitchDiagramProps {
+  reading: string;
+  accent: number;
+}
+
+// A line over the high morae and a tick where the pitch drops. The drop of
+// an odaka word falls on the following particle, so it shows after the word.
+export function PitchDiagram({ reading, accent }: PitchDiagramProps) {
+  const morae = splitMorae(reading);
+  const levels = pitchLevels(morae.length, accent);
+
+  return (
+    <span className="inline-flex items-end gap-2">
+      <span className="inline-flex text-base text-[#0D0C22]">
+        {morae.map((mora, index) => {
+          const high = levels[index];
+          const drop = high && !levels[index + 1];
+          return (
+            <span
+              key={index}
+              className={`px-[1px] pt-0.5 border-[#6565FF]
+                        ${high ? 'border-t-2' : 'border-t-2 border-t-transparent'}
+                        ${drop ? 'border-r-2' : ''}`}
+            >
+              {mora}
+            </span>
+          );
+        })}
+      </span>
+      <span className="text-[10px] text-gray-500">
+        {pitchPatternName(morae.length, accent)} [{accent}]
+      </span>
+    </span>
+  );
+}
+
+// Looks up the word's pitch accent when the modal opens
+export default function PitchAccent({ word, reading }: PitchAccentProps) {
+  const [accents, setAccents] = useState<number[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAccents([]);
+    fetch('/api/pitch-accent', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ word, reading }),
+    })
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled && data.accents) {
+          setAccents(data.accents);
+        }
+      })
+      .catch(err => console.error('Failed to look up pitch accent: ', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [word, reading]);
+
+  if (accents.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-sm text-gray-600 mb-1">
+        Pitch accent
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {accents.map(accent => (
+          <PitchDiagram key={accent} reading={wanakana.toHiragana(reading)} accent={accent} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { splitFurigana } from '@/lib/analysis/furigana';
+import type { ReaderSegment } from '@/lib/analysis/types';
+
+export type FuriganaMode = 'all' | 'unknown' | 'none';
+
+export const FURIGANA_MODES: { value: FuriganaMode; label: string }[] = [
+  { value: 'all', label: 'All kanji' },
+  { value: 'unknown', label: 'Unknown words' },
+  { value: 'none', label: 'None' },
+];
+
+interface ReaderViewProps {
+  segments: ReaderSegment[];
+  // Lemmas of the ranked words, highlighted in the text
+  topWords: Set<string>;
+  knownWords: Set<string>;
+  furigana: FuriganaMode;
+  onWordClick: (lemma: string) => void;
+}
+
+function Furigana({ text, reading }: { text: string; reading: string }) {
+  return (
+    <>
+      {splitFurigana(text, reading).map((part, index) =>
+        part.reading ? (
+          <ruby key={index}>
+            {part.text}
+            <rt className="text-[0.55em] text-gray-500">{part.reading}</rt>
+          </ruby>
+        ) : (
+          <React.Fragment key={index}>{part.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export default function ReaderView({
+  segments,
+  topWords,
+  knownWords,
+  furigana,
+  onWordClick
+}: ReaderViewProps) {
+  const showReading = ({ reading, lemma }: ReaderSegment) =>
+    Boolean(reading) && (
+      furigana === 'all' ||
+      (furigana === 'unknown' && !(lemma && knownWords.has(lemma)))
+    );
+
+  return (
+    <div className="bg-white rounded-lg border border-[#D9D9D9] p-6 text-[17px] leading-[2.4] text-[#0D0C22] whitespace-pre-wrap">
+      {segments.map((segment, index) => {
+        const content = showReading(segment)
+          ? <Furigana text={segment.text} reading={segment.reading as string} />
+          : segment.text;
+
+        if (!segment.lemma) {
+          return <React.Fragment key={index}>{content}</React.Fragment>;
+        }
+
+        const lemma = segment.lemma;
+        return (
+          <span
+            key={index}
+            onClick={() => onWordClick(lemma)}
+            className={`cursor-pointer rounded hover:bg-[#F3F3F6]
+                      ${topWords.has(lemma) ? 'bg-[#EDEDFF] text-[#3F3FCC]' : ''}`}
+          >
+            {content}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { Script, TextReport } from '@/lib/analysis/types';
+
+interface ReportPanelProps {
+  report: TextReport;
+}
+
+const SCRIPTS: { script: Script; label: string; color: string }[] = [
+  { script: 'kanji', label: 'Kanji', color: '#6565FF' },
+  { script: 'hiragana', label: 'Hiragana', color: '#9C9CFF' },
+  { script: 'katakana', label: 'Katakana', color: '#1E7B3A' },
+  { script: 'latin', label: 'Latin', color: '#F0A030' },
+  { script: 'other', label: 'Other', color: '#C8C8C8' },
+];
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <div className="text-[10px] text-gray-500">{label}</div>
+      <div className="text-base text-[#0D0C22]">{value}</div>
+    </div>
+  );
+}
+
+export default function ReportPanel({ report }: ReportPanelProps) {
+  return (
+    <div className="rounded-lg border border-[#D9D9D9] bg-white p-4 font-manrope">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+        <Stat
+          label="Difficulty"
+          value={`${report.difficulty.label} (${report.difficulty.score}/100)`}
+        />
+        <Stat label="Words" value={`${report.tokens} (${report.uniqueLemmas} unique)`} />
+        <Stat label="Kanji density" value={percent(report.kanjiDensity)} />
+        <Stat
+          label="Average sentence"
+          value={`${Math.round(report.averageSentenceLength)} characters`}
+        />
+        <Stat label="Sentences" value={String(report.sentences)} />
+        <Stat
+          label="Known words cover"
+          value={report.knownCoverage === null ? '—' : percent(report.knownCoverage)}
+        />
+      </div>
+
+      <div className="mt-4">
+        <div className="flex h-2 rounded-full overflow-hidden bg-[#F3F3F6]">
+          {SCRIPTS.map(({ script, color }) => (
+            <div key={script} style={{ width: percent(report.scripts[script]), backgroundColor: color }} />
+          ))}
+        </div>
+        <div className="mt-1.5 flex flex-wrap gap-x-4 gap-y-1 text-[10px] text-gray-600">
+          {SCRIPTS.map(({ script, label, color }) => (
+            <span key={script} className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+              {label} {percent(report.scripts[script])}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,50 @@
 import React from 'react';
+import { BookmarkPlus, Check, Volume2 } from 'lucide-react';
+import KanjiBreakdown from './KanjiBreakdown';
+import PitchAccent from './PitchAccent';
+import type { ExampleSentence } from '@/lib/analysis/types';
+import type { DictionarySense, LanguageSource } from '@/lib/dictionary';
+import { FREQUENCY_BANDS, type FrequencyBand } from '@/lib/frequency/bands';
+import type { JlptLevel } from '@/lib/jlpt/levels';
+import { canSpeak, speakJapanese } from '@/lib/speech';
 
 interface WordModalProps {
   word: string;
   reading: string;
   definition: string;
   partOfSpeech: string;
+  forms: string[];
+  kanji: string[];
+  readings: string[];
+  senses: DictionarySense[];
+  level: JlptLevel | null;
+  frequencyBand: FrequencyBand | null;
+  common: boolean;
+  examples: ExampleSentence[];
+  origin?: LanguageSource;
   isOpen: boolean;
   onClose: () => void;
   onCopy: () => void;
+  onAddToReview: () => void;
+  onMarkKnown: () => void;
+}
+
+// Renders a sentence with the word's occurrences in bold
+export function HighlightedSentence({ text, highlights }: ExampleSentence) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  [...highlights].sort(([a], [b]) => a - b).forEach(([start, end], index) => {
+    if (start < cursor) return;
+    parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-[#EDEDFF] text-[#0D0C22] font-semibold rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
 }
 
 export default function WordModal({ 
@@ -15,9 +52,20 @@ export default function WordModal({
   reading, 
   definition, 
   partOfSpeech, 
+  forms,
+  kanji,
+  readings,
+  senses,
+  level,
+  frequencyBand,
+  common,
+  examples,
+  origin,
   isOpen, 
   onClose,
-  onCopy
+  onCopy,
+  onAddToReview,
+  onMarkKnown
 }: WordModalProps) {
   if (!isOpen) return null;
 
@@ -27,9 +75,13 @@ export default function WordModal({
     }
   };
 
+  const otherForms = kanji.filter(form => form !== word);
+  const otherReadings = readings.filter(form => form !== reading);
+
   const handleCopy = () => {
     navigator.clipboard.writeText(
-      `${word} (${reading})\n${partOfSpeech}\n${definition}`
+      `${word} (${reading})\n${partOfSpeech}\n${definition}` +
+      (examples[0] ? `\n${examples[0].text}` : '')
     );
     onCopy();
   };
@@ -39,15 +91,58 @@ export default function WordModal({
       className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
       onClick={handleBackdropClick}
     >
-      <div className="bg-white rounded-lg p-4 sm:p-6 w-full max-w-[500px] mx-auto">
+      <div className="bg-white rounded-lg p-4 sm:p-6 w-full max-w-[500px] max-h-[90vh] overflow-y-auto mx-auto">
         {/* Header */}
         <div className="flex justify-between items-start mb-4">
           <div className="flex items-center gap-2 flex-wrap">
             <span className="text-xl sm:text-2xl font-bold break-all">{word}</span>
             <span className="text-sm sm:text-base text-gray-600">({reading})</span>
+            {canSpeak() && (
+              <button
+                onClick={() => speakJapanese(word)}
+                title="Play pronunciation"
+                className="rounded-full"
+              >
+                <Volume2 className="w-5 h-5 text-[#0F0F0F]" />
+              </button>
+            )}
+            {common && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-[#E7F6EC] text-[#1E7B3A]">
+                common
+              </span>
+            )}
+            {level && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-[#EDEDFF] text-[#6565FF]">
+                JLPT {level}
+              </span>
+            )}
+            {frequencyBand && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-[#F3F3F6] text-gray-600">
+                {FREQUENCY_BANDS.find(({ band }) => band === frequencyBand)?.label}
+              </span>
+            )}
+            {origin && (
+              <span className="text-[10px] px-1.5 py-0.5 rounded bg-[#F3F3F6] text-gray-600">
+                from {origin.language} {origin.word}
+              </span>
+            )}
           </div>
           
           <div className="flex items-center gap-2">
+            <button
+              onClick={onAddToReview}
+              title="Add to review"
+              className="rounded-full"
+            >
+              <BookmarkPlus className="w-5 h-5 text-[#0F0F0F]" />
+            </button>
+            <button
+              onClick={onMarkKnown}
+              title="Mark as known"
+              className="rounded-full"
+            >
+              <Check className="w-5 h-5 text-[#0F0F0F]" />
+            </button>
             <button 
               onClick={handleCopy}
               className="rounded-full"
@@ -79,14 +174,91 @@ export default function WordModal({
 
         {/* Content */}
         <div className="space-y-4">
-          <div>
-            <div className="text-sm text-gray-600 mb-1">
-              {partOfSpeech}
+          {senses.length > 0 ? (
+            <ol className="space-y-3 max-h-[50vh] overflow-y-auto">
+              {senses.map((sense, index) => (
+                <li key={index} className="flex gap-2">
+                  <span className="text-sm text-gray-600">{index + 1}.</span>
+                  <div>
+                    {sense.partsOfSpeech.length > 0 && (
+                      <div className="text-xs text-gray-600 mb-0.5">
+                        {sense.partsOfSpeech.join(', ')}
+                      </div>
+                    )}
+                    <div className="text-sm sm:text-base text-[#787878] leading-relaxed">
+                      {sense.definitions.join('; ')}
+                    </div>
+                    {sense.tags && sense.tags.length > 0 && (
+                      <div className="text-xs text-gray-400 mt-0.5">
+                        {sense.tags.join(', ')}
+                      </div>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <div>
+              <div className="text-sm text-gray-600 mb-1">
+                {partOfSpeech}
+              </div>
+              <div className="text-sm sm:text-base text-[#787878] leading-relaxed">
+                {definition}
+              </div>
             </div>
-            <div className="text-sm sm:text-base text-[#787878] leading-relaxed">
-              {definition}
+          )}
+          <PitchAccent word={word} reading={reading} />
+          <KanjiBreakdown word={word} />
+          {examples.length > 0 && (
+            <div>
+              <div className="text-sm text-gray-600 mb-1">
+                Examples from the article
+              </div>
+              <ul className="space-y-1.5">
+                {examples.map((example, index) => (
+                  <li key={index} className="text-sm text-[#393939] leading-relaxed">
+                    <HighlightedSentence {...example} />
+                    {canSpeak() && (
+                      <button
+                        onClick={() => speakJapanese(example.text)}
+                        title="Play sentence"
+                        className="ml-1 align-middle"
+                      >
+                        <Volume2 className="w-3.5 h-3.5 text-gray-500" />
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
             </div>
-          </div>
+          )}
+          {(otherForms.length > 0 || otherReadings.length > 0) && (
+            <div>
+              <div className="text-sm text-gray-600 mb-1">
+                Other forms
+              </div>
+              <div className="text-sm text-[#393939]">
+                {[...otherForms, ...otherReadings].join('、')}
+              </div>
+            </div>
+          )}
+          {forms.length > 0 && (
+            <div>
+              <div className="text-sm text-gray-600 mb-1">
+                Forms in this article
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {forms.map(form => (
+                  <span
+                    key={form}
+                    className="text-sm px-2 py-0.5 rounded bg-[#F3F3F6] text-[#393939]"
+                  >
+                    {form}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,184 @@
+'use client';
+
+import React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Trash2 } from 'lucide-react';
+import { saveFile } from '@/lib/save-file';
+import { DatabaseBlockedError } from '@/lib/storage/db';
+import { buildLibrary, getAnalyses, removeAnalysis, type SavedAnalysis } from '@/lib/storage/history';
+
+type HistoryView = 'articles' | 'library';
+
+const HISTORY_VIEWS: { value: HistoryView; label: string }[] = [
+  { value: 'articles', label: 'Articles' },
+  { value: 'library', label: 'Vocabulary library' },
+];
+
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+const openHref = (id: string) => `/?analysis=${encodeURIComponent(id)}`;
+
+export default function History() {
+  const [analyses, setAnalyses] = useState<SavedAnalysis[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<HistoryView>('articles');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getAnalyses()
+      .then(setAnalyses)
+      .catch(err => {
+        console.error('Failed to load history: ', err);
+        if (err instanceof DatabaseBlockedError) setError(err.message);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const library = useMemo(() => buildLibrary(analyses), [analyses]);
+
+  const deleteAnalysis = (analysis: SavedAnalysis) => {
+    if (!confirm(`Delete "${analysis.title}" from history?`)) {
+      return;
+    }
+    removeAnalysis(analysis.id)
+      .then(() => setAnalyses(prev => prev.filter(({ id }) => id !== analysis.id)))
+      .catch(err => console.error('Failed to delete analysis: ', err));
+  };
+
+  const exportLibrary = () => {
+    const json = JSON.stringify({
+      exportedAt: new Date().toISOString(),
+      articles: analyses.length,
+      words: library.map(word => ({ ...word, firstSeen: new Date(word.firstSeen).toISOString() })),
+    }, null, 2);
+    saveFile(new Blob([json], { type: 'application/json' }), 'vocabulary_library.json', {
+      description: 'JSON Files',
+      mimeType: 'application/json',
+      extension: 'json',
+    }).catch(err => console.error('Failed to export library: ', err));
+  };
+
+  return (
+    <>
+      <header className="h-[80px] flex items-center">
+        <div className="container mx-auto px-4 flex items-center justify-between">
+          <Link href="/" className="text-[20px] text-[#393939]">luminos.jp</Link>
+          <nav className="flex items-center gap-4">
+            <Link href="/" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Analyze
+            </Link>
+            <Link href="/review" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Review
+            </Link>
+            <Link href="/compare" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Compare
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex items-center gap-2 text-xs text-[#0D0C22]/70 mb-6">
+          {HISTORY_VIEWS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setView(value)}
+              className={`h-[30px] px-4 rounded-full text-[13px] transition-colors
+                        ${view === value
+                          ? 'bg-[#0D0C22] text-white'
+                          : 'text-[#0D0C22]/70 hover:bg-[#F3F3F6]'}`}
+            >
+              {label}
+            </button>
+          ))}
+          {view === 'library' && library.length > 0 && (
+            <button
+              onClick={exportLibrary}
+              className="ml-auto h-[30px] px-4 rounded-full border border-[#D9D9D9] text-[13px] text-[#0D0C22] hover:bg-[#F3F3F6]"
+            >
+              Export JSON
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center">
+            <div className="dot-pulse"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center text-red-500">{error}</div>
+        ) : analyses.length === 0 ? (
+          <div className="text-center text-gray-600">
+            No saved analyses yet. Every analysis you run is kept here.
+          </div>
+        ) : view === 'articles' ? (
+          <ul className="space-y-3">
+            {analyses.map(analysis => (
+              <li
+                key={analysis.id}
+                className="flex items-start justify-between gap-4 rounded-lg border border-[#D9D9D9] p-4 bg-white"
+              >
+                <div className="min-w-0">
+                  <Link
+                    href={openHref(analysis.id)}
+                    className="font-bold text-[#0D0C22] hover:text-blue-600 underline underline-offset-4"
+                  >
+                    {analysis.title}
+                  </Link>
+                  {analysis.source && (
+                    <div className="text-xs text-gray-500 truncate">{analysis.source}</div>
+                  )}
+                  <div className="text-xs text-gray-600 mt-1">
+                    {formatDate(analysis.createdAt)} · {analysis.result.words.length} words
+                  </div>
+                </div>
+                <button
+                  onClick={() => deleteAnalysis(analysis)}
+                  title="Delete"
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-600 border-b border-[#D9D9D9]">
+                <tr>
+                  <th className="py-2 pr-4">Word</th>
+                  <th className="py-2 pr-4">Count</th>
+                  <th className="py-2 pr-4">First seen</th>
+                  <th className="py-2">Articles</th>
+                </tr>
+              </thead>
+              <tbody>
+                {library.map(({ word, reading, definition, count, firstSeen, sources }) => (
+                  <tr key={word} className="border-b border-[#F3F3F6] align-top">
+                    <td className="py-2 pr-4">
+                      <span className="font-bold text-[#0D0C22]">{word}</span>
+                      <span className="ml-1 text-xs text-gray-600">({reading})</span>
+                      <div className="text-xs text-[#787878] line-clamp-1">{definition}</div>
+                    </td>
+                    <td className="py-2 pr-4">{count}</td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{formatDate(firstSeen)}</td>
+                    <td className="py-2">
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {sources.map(({ id, title }) => (
+                          <Link key={id} href={openHref(id)} className="text-xs text-[#6565FF] hover:underline">
+                            {title}
+                          </Link>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
@@ -1,234 +1,541 @@
 'use client';
 
 import React from 'react';
-import { useState, useEffect } from 'react';
-import * as wanakana from 'wanakana';
-import * as kuromoji from 'kuromoji';
-import { Search } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { BookmarkPlus, Check, Search, Volume2 } from 'lucide-react';
+import ExportDialog from './components/ExportDialog';
+import { KanjiCard } from './components/KanjiBreakdown';
+import ReaderView, { FURIGANA_MODES, type FuriganaMode } from './components/ReaderView';
+import ReportPanel from './components/ReportPanel';
 import WordModal from './components/WordModal';
+import { ALL_GROUPS, ALL_POS, POS_OPTIONS, WORD_GROUP_OPTIONS } from '@/lib/analysis/pos';
+import { cumulativeLevelShare } from '@/lib/analysis/levels';
+import { RANK_OPTIONS, needsFrequencyData } from '@/lib/analysis/rank';
+import type {
+  AnalysisResult,
+  AnalyzeEvent,
+  AnalyzeProgress,
+  ArticleInfo,
+  LevelFilter,
+  LevelSummary,
+  PosCategory,
+  RankStrategy,
+  ReaderText,
+  TextReport,
+  WordGroup,
+  WordResult,
+} from '@/lib/analysis/types';
+import { FREQUENCY_BANDS } from '@/lib/frequency/bands';
+import { JLPT_LEVELS, normalizeJlptLevel, type JlptLevel } from '@/lib/jlpt/levels';
+import type { KanjiCount } from '@/lib/kanji/types';
+import { readNdjson } from '@/lib/ndjson';
+import { getAnalysis, saveAnalysis } from '@/lib/storage/history';
+import { addReviewCards } from '@/lib/storage/reviews';
+import { DatabaseBlockedError } from '@/lib/storage/db';
+import { addKnownWords, clearKnownWords, getKnownWords, parseWordList } from '@/lib/storage/known-words';
+import { canSpeak, speakJapanese } from '@/lib/speech';
 
-interface WordResult {
-  word: string;
-  count: number;
-  reading: string;
-  extraReadings: number;
-  definition: string;
-  partOfSpeech: string;
-}
+// User-facing messages for the fetch error codes returned by /api/analyze
+const FETCH_ERROR_MESSAGES: Record<string, string> = {
+  INVALID_URL: 'That doesn\'t look like a valid web address. Please enter a link starting with http:// or https://.',
+  BLOCKED_HOST: 'That address points to a private or local network, so it can\'t be analyzed.',
+  TIMEOUT: 'The site took too long to respond. Please try again in a moment.',
+  TOO_LARGE: 'That page is too large to analyze.',
+  UPSTREAM_STATUS: 'The site returned an error for that page. Please check the link.',
+  NOT_HTML: 'That link doesn\'t point to a web page (it may be a PDF, image or download).',
+  FETCH_FAILED: 'We couldn\'t reach that site. Please check the link and try again.',
+};
 
-interface Tokenizer {
-  tokenize: (text: string) => Token[];
-}
+type InputMode = 'url' | 'text' | 'file';
 
-interface Token {
-  surface_form: string;
-}
+type ResultView = 'words' | 'kanji' | 'reader';
+
+const RESULT_VIEWS: { value: ResultView; label: string }[] = [
+  { value: 'words', label: 'Top words' },
+  { value: 'kanji', label: 'Top kanji' },
+  { value: 'reader', label: 'Reader' },
+];
+
+type ResultSort = 'rank' | 'count' | 'reading' | 'pos' | 'level';
+
+const RESULT_SORTS: { value: ResultSort; label: string }[] = [
+  { value: 'rank', label: 'Rank' },
+  { value: 'count', label: 'Count' },
+  { value: 'reading', label: 'Reading' },
+  { value: 'pos', label: 'Part of speech' },
+  { value: 'level', label: 'JLPT level' },
+];
+
+const PAGE_SIZE = 40;
+
+const INPUT_MODES: { value: InputMode; label: string }[] = [
+  { value: 'url', label: 'Link' },
+  { value: 'text', label: 'Paste text' },
+  { value: 'file', label: 'Upload file' },
+];
+
+const FILE_ACCEPT = '.txt,.html,.htm,.xhtml,.srt,.vtt,.epub';
+
+const KNOWN_WORDS_ACCEPT = '.txt,.csv,.tsv,.apkg';
+
+// Words on no JLPT list are mostly rarer than N1, so they are only kept when
+// the range reaches N1
+const levelsInRange = (easiest: JlptLevel, hardest: JlptLevel): LevelFilter[] | undefined => {
+  if (easiest === 'N5' && hardest === 'N1') return undefined;
+  const range: LevelFilter[] = JLPT_LEVELS.slice(JLPT_LEVELS.indexOf(easiest), JLPT_LEVELS.indexOf(hardest) + 1);
+  return hardest === 'N1' ? [...range, 'unlisted'] : range;
+};
+
+const bandLabel = (band: NonNullable<WordResult['frequencyBand']>) =>
+  FREQUENCY_BANDS.find(option => option.band === band)?.label || band;
+
+// Easiest level first, unlisted words last
+const levelOrder = (level: JlptLevel | null) =>
+  level ? JLPT_LEVELS.indexOf(level) : JLPT_LEVELS.length;
 
-interface FileSystemHandle {
-  createWritable(): Promise<FileSystemWritableFileStream>;
+// Results arrive in rank order, so sorting by rank keeps them as they are
+function sortResults(words: WordResult[], sort: ResultSort): WordResult[] {
+  const sorted = [...words];
+  if (sort === 'count') sorted.sort((a, b) => b.count - a.count);
+  if (sort === 'reading') sorted.sort((a, b) => a.reading.localeCompare(b.reading, 'ja'));
+  if (sort === 'pos') sorted.sort((a, b) => a.partOfSpeech.localeCompare(b.partOfSpeech));
+  if (sort === 'level') sorted.sort((a, b) => levelOrder(a.level) - levelOrder(b.level));
+  return sorted;
 }
 
-declare global {
-  interface Window {
-    showSaveFilePicker(options?: {
-      suggestedName?: string;
-      types?: Array<{
-        description?: string;
-        accept: Record<string, string[]>;
-      }>;
-    }): Promise<FileSystemHandle>;
+const groupOf = (word: WordResult) => word.group || 'vocabulary';
+
+// Keeps each group's words together, in the order of WORD_GROUP_OPTIONS
+const groupResults = (words: WordResult[]) =>
+  [...words].sort((a, b) => ALL_GROUPS.indexOf(groupOf(a)) - ALL_GROUPS.indexOf(groupOf(b)));
+
+// Results arrive ranked, so counting through them gives each word's rank
+// within its own group
+const rankWithinGroups = (words: WordResult[]) => {
+  const counts = new Map<string, number>();
+  const ranks = new Map<string, number>();
+  for (const word of words) {
+    const rank = (counts.get(groupOf(word)) ?? 0) + 1;
+    counts.set(groupOf(word), rank);
+    ranks.set(word.word, rank);
   }
-}
+  return ranks;
+};
+
+const matchesSearch = ({ word, reading, definition }: WordResult, query: string) =>
+  !query ||
+  word.includes(query) ||
+  reading.includes(query) ||
+  definition.toLowerCase().includes(query.toLowerCase());
 
 export default function Home() {
+  const [inputMode, setInputMode] = useState<InputMode>('url');
   const [url, setUrl] = useState('');
+  const [pastedText, setPastedText] = useState('');
+  const [file, setFile] = useState<File | null>(null);
   const [results, setResults] = useState<WordResult[]>([]);
+  const [noDefinition, setNoDefinition] = useState<WordResult[]>([]);
+  const [resultLimit, setResultLimit] = useState(20);
+  const [candidatePool, setCandidatePool] = useState(50);
+  const [minCount, setMinCount] = useState(1);
+  const [sort, setSort] = useState<ResultSort>('rank');
+  const [search, setSearch] = useState('');
+  // Result sections the user has collapsed; every group is always analyzed
+  const [hiddenGroups, setHiddenGroups] = useState<WordGroup[]>([]);
+  const [page, setPage] = useState(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [tokenizer, setTokenizer] = useState<Tokenizer | null>(null);
   const [selectedWord, setSelectedWord] = useState<WordResult | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [showToast, setShowToast] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [toast, setToast] = useState('');
+  const [fullPage, setFullPage] = useState(false);
+  const [article, setArticle] = useState<ArticleInfo | null>(null);
+  const [posFilter, setPosFilter] = useState<PosCategory[]>(ALL_POS);
+  const [rankStrategy, setRankStrategy] = useState<RankStrategy>('count');
+  // Corpus the reference frequencies were built from; null until they are
+  const [frequencySource, setFrequencySource] = useState<string | null>(null);
+  const [easiestLevel, setEasiestLevel] = useState<JlptLevel>('N5');
+  const [hardestLevel, setHardestLevel] = useState<JlptLevel>('N1');
+  const [levelSummary, setLevelSummary] = useState<LevelSummary | null>(null);
+  const [reader, setReader] = useState<ReaderText | null>(null);
+  const [report, setReport] = useState<TextReport | null>(null);
+  const [progress, setProgress] = useState<AnalyzeProgress | null>(null);
+  const analysisController = useRef<AbortController | null>(null);
+  const [topKanji, setTopKanji] = useState<KanjiCount[]>([]);
+  const [view, setView] = useState<ResultView>('words');
+  const [furigana, setFurigana] = useState<FuriganaMode>('all');
+  const [knownWords, setKnownWords] = useState<Set<string>>(new Set());
+  const [hideKnown, setHideKnown] = useState(true);
+  const knownWordsInput = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    kuromoji.builder({ dicPath: '/dict' })
-      .build((err: Error | null, _tokenizer: Tokenizer) => {
-        if (err) {
-          console.error('Tokenizer error:', err);
-        } else {
-          setTokenizer(_tokenizer);
-        }
+    fetch('/api/frequency')
+      .then(response => response.json())
+      .then(data => setFrequencySource(data.source || null))
+      .catch(err => console.error('Failed to load frequency data: ', err));
+  }, []);
+
+  useEffect(() => {
+    getKnownWords()
+      .then(words => setKnownWords(new Set(words)))
+      .catch(err => {
+        console.error('Failed to load known words: ', err);
+        if (err instanceof DatabaseBlockedError) setError(err.message);
       });
   }, []);
 
-  const isKanji = (text: string): boolean => {
-    return /[\u4E00-\u9FAF]/.test(text);
+  // The history page reopens a saved analysis with ?analysis=<id>
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get('analysis');
+    if (!id) return;
+    getAnalysis(id)
+      .then(saved => {
+        if (!saved) {
+          setError('That saved analysis no longer exists');
+          return;
+        }
+        if (saved.source.startsWith('http')) {
+          setUrl(saved.source);
+        }
+        showResult(saved.result);
+      })
+      .catch(err => console.error('Failed to load saved analysis: ', err));
+  }, []);
+
+  const flashToast = (message: string) => {
+    setToast(message);
+    setTimeout(() => setToast(''), 2000);
+  };
+
+  const togglePos = (category: PosCategory) => {
+    setPosFilter(prev =>
+      prev.includes(category)
+        ? prev.filter(value => value !== category)
+        : [...prev, category]
+    );
+  };
+
+  const toggleGroup = (group: WordGroup) => {
+    setPage(0);
+    setHiddenGroups(prev =>
+      prev.includes(group)
+        ? prev.filter(value => value !== group)
+        : [...prev, group]
+    );
+  };
+
+  // Builds the /api/analyze request for the current input mode. Uploaded
+  // files are converted to text first.
+  const buildAnalyzeRequest = async (signal: AbortSignal): Promise<Record<string, unknown>> => {
+    if (inputMode === 'text') {
+      return { text: pastedText };
+    }
+
+    if (inputMode === 'file') {
+      const form = new FormData();
+      form.append('file', file as File);
+      const response = await fetch('/api/extract-file', { method: 'POST', body: form, signal });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to read file');
+      }
+      if (!data.content) {
+        throw new Error('No text found in this file');
+      }
+      return { text: data.content, title: data.title };
+    }
+
+    return { url, mode: fullPage ? 'full' : 'article' };
+  };
+
+  const analysisSource = () => {
+    if (inputMode === 'url') return url;
+    if (inputMode === 'file') return file?.name || '';
+    return '';
+  };
+
+  const showResult = (data: AnalysisResult) => {
+    setArticle(data.article);
+    setLevelSummary(data.levels);
+    setReader(data.reader);
+    setTopKanji(data.kanji);
+    setReport(data.report || null);
+    // Analyses saved before words without a definition were kept lack the list
+    setNoDefinition(data.noDefinition || []);
+    if (data.words.length === 0) {
+      setError('no_words_found');
+    } else {
+      setResults(data.words);
+    }
   };
 
   const analyzeText = async () => {
-    if (!url) {
+    if (inputMode === 'url' && !url) {
       setError('Please enter a URL');
       return;
     }
 
-    if (!tokenizer) {
-      setError('Tokenizer not ready');
+    if (inputMode === 'text' && !pastedText.trim()) {
+      setError('Please paste some Japanese text');
+      return;
+    }
+
+    if (inputMode === 'file' && !file) {
+      setError('Please choose a file');
+      return;
+    }
+
+    if (posFilter.length === 0) {
+      setError('Please select at least one word type');
+      return;
+    }
+
+    if (JLPT_LEVELS.indexOf(easiestLevel) > JLPT_LEVELS.indexOf(hardestLevel)) {
+      setError('Please choose a level range from easier to harder');
       return;
     }
 
     setLoading(true);
     setError('');
     setResults([]); // Clear previous results
+    setNoDefinition([]);
+    setPage(0);
+    setArticle(null);
+    setLevelSummary(null);
+    setReader(null);
+    setReport(null);
+    setTopKanji([]);
+    setProgress(null);
+
+    const controller = new AbortController();
+    analysisController.current = controller;
 
     try {
-      const response = await fetch('/api/fetch-url', {
+      const body = await buildAnalyzeRequest(controller.signal);
+      const response = await fetch('/api/analyze', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url }),
+        signal: controller.signal,
+        body: JSON.stringify({
+          ...body,
+          stream: true,
+          pos: posFilter,
+          rank: rankStrategy,
+          limit: resultLimit,
+          candidates: Math.max(candidatePool, resultLimit),
+          minCount,
+          levels: levelsInRange(easiestLevel, hardestLevel),
+          known: Array.from(knownWords),
+          hideKnown,
+        }),
       });
 
-      const data = await response.json();
-      
-      if (!data.content) {
-        throw new Error('No content received from URL');
+      // Invalid requests are rejected with a plain JSON error before streaming
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(FETCH_ERROR_MESSAGES[data.code] || data.error || 'Failed to analyze text');
       }
 
-      const tokens = tokenizer.tokenize(data.content);
-      const wordCount = new Map<string, number>();
-      
-      // First, collect all words and their counts
-      tokens.forEach(token => {
-        const word = token.surface_form;
-        if (word.length > 1 && isKanji(word)) {
-          wordCount.set(word, (wordCount.get(word) || 0) + 1);
-        }
-      });
-
-      // Get more than 25 words initially since some might be filtered out
-      const topWords = Array.from(wordCount.entries())
-        .sort(([, a], [, b]) => b - a)
-        .slice(0, 50); // Increased from 25 to 50 to have enough backup words
-
-      // Process words until we get 20 valid ones
-      const processedResults = [];
-      for (const [word, count] of topWords) {
-        try {
-          const response = await fetch('/api/dictionary', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ word }),
-          });
-          const data = await response.json();
-          
-          if (data.definition !== 'Error fetching definition' && 
-              data.definition !== 'No definition found') {
-            processedResults.push({ 
-              word, 
-              count, 
-              reading: data.reading || wanakana.toRomaji(word),
-              extraReadings: data.extraReadings || 0,
-              definition: data.definition,
-              partOfSpeech: data.partOfSpeech || 'noun'
-            });
+      let finished = false;
+      for await (const event of readNdjson<AnalyzeEvent>(response)) {
+        if (event.type === 'progress') {
+          setProgress(event);
+        } else if (event.type === 'word') {
+          setResults(prev => [...prev, event.word]);
+        } else if (event.type === 'error') {
+          throw new Error(FETCH_ERROR_MESSAGES[event.code] || event.error);
+        } else {
+          finished = true;
+          showResult(event.result);
+          if (event.result.words.length > 0) {
+            saveAnalysis(analysisSource(), event.result)
+              .catch(err => console.error('Failed to save analysis: ', err));
           }
-
-          if (processedResults.length === 20) break;
-        } catch (error) {
-          console.error('Analysis error:', error);
-          continue;
         }
       }
-
-      if (processedResults.length === 0) {
-        setError('no_words_found');
-      } else {
-        setResults(processedResults);
+      // The connection dropped before the server sent a result or an error
+      if (!finished) {
+        throw new Error('The analysis ended unexpectedly. Please try again.');
       }
     } catch (err) {
+      if (controller.signal.aborted) {
+        // Words that arrived before cancelling stay on screen
+        flashToast('Analysis cancelled');
+        return;
+      }
       setError(err instanceof Error ? err.message : 'Failed to analyze text');
       console.error('Analysis error:', err);
     } finally {
+      analysisController.current = null;
       setLoading(false);
+      setProgress(null);
     }
   };
 
+  const cancelAnalysis = () => analysisController.current?.abort();
+
+  const progressMessage = () => {
+    if (!progress || progress.stage === 'fetching') {
+      return inputMode === 'file' ? 'Reading the file...' : inputMode === 'url' ? 'Fetching the article...' : 'Analyzing...';
+    }
+    if (progress.stage === 'tokenizing') return 'Splitting the text into words...';
+    return `Looking up words: ${progress.done} of ${progress.total}`;
+  };
+
   const copyAllToClipboard = () => {
-    const textToCopy = results.map(({ word, reading, partOfSpeech, definition }) => 
-      `${word} (${reading})\n${partOfSpeech}\n${definition}`
+    const textToCopy = results.map(({ word, reading, partOfSpeech, definition, examples }) => 
+      `${word} (${reading})\n${partOfSpeech}\n${definition}` +
+      (examples[0] ? `\n${examples[0].text}` : '')
     ).join('\n\n');
 
     navigator.clipboard.writeText(textToCopy)
-      .then(() => {
-        setShowToast(true);
-        setTimeout(() => setShowToast(false), 2000);
-      })
+      .then(() => flashToast('Content has been copied'))
       .catch(err => console.error('Failed to copy text: ', err));
   };
 
-  const exportToAnki = async () => {
-    let blob: Blob | null = null;
+  const handleWordClick = (word: WordResult) => {
+    setSelectedWord(word);
+    setIsModalOpen(true);
+  };
+
+  // Words in the reader that aren't among the results are looked up on demand
+  const openReaderWord = async (lemma: string) => {
+    const result = results.find(({ word }) => word === lemma);
+    if (result) {
+      handleWordClick(result);
+      return;
+    }
+
     try {
-      // Create CSV content
-      const csvContent = results.map(({ word, reading, definition, partOfSpeech }) => 
-        `${word};${reading};${partOfSpeech};${definition}`
-      ).join('\n');
-
-      // Add CSV header
-      const csvWithHeader = `Front;Back;Part of Speech;Definition\n${csvContent}`;
-
-      // Create blob
-      blob = new Blob([csvWithHeader], { type: 'text/csv;charset=utf-8;' });
-
-      // Show save dialog
-      const handle = await window.showSaveFilePicker({
-        suggestedName: 'anki_import.csv',
-        types: [{
-          description: 'CSV Files',
-          accept: {
-            'text/csv': ['.csv'],
-          },
-        }],
+      const response = await fetch('/api/dictionary', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ word: lemma }),
+      });
+      const data = await response.json();
+      const info = reader?.words[lemma];
+      handleWordClick({
+        word: lemma,
+        count: info?.count || 1,
+        score: 0,
+        reading: data.reading || '',
+        extraReadings: data.extraReadings || 0,
+        definition: data.definition || 'No definition found',
+        partOfSpeech: data.partOfSpeech || '',
+        forms: [],
+        kanji: data.kanji || [],
+        readings: data.readings || [],
+        senses: data.senses || [],
+        jlpt: data.jlpt || [],
+        level: info?.level || normalizeJlptLevel(data.jlpt?.[0] || ''),
+        frequencyBand: info?.frequencyBand ?? null,
+        common: Boolean(data.common),
+        examples: [],
+        origin: data.origin,
       });
+    } catch (err) {
+      console.error('Failed to look up word: ', err);
+    }
+  };
+
+  // Adds words to the in-app review deck; words already in it are skipped
+  const studyWords = (words: WordResult[]) => {
+    addReviewCards(words, article?.title || analysisSource())
+      .then(added => flashToast(
+        added > 0
+          ? `Added ${added} word${added === 1 ? '' : 's'} to review`
+          : 'Already in your review deck'
+      ))
+      .catch(err => console.error('Failed to add review cards: ', err));
+  };
+
+  const markKnown = (word: string) => {
+    addKnownWords([word])
+      .then(() => {
+        setKnownWords(prev => new Set(prev).add(word));
+        setResults(prev => prev.filter(result => result.word !== word));
+        flashToast(`Marked ${word} as known`);
+      })
+      .catch(err => console.error('Failed to save known word: ', err));
+  };
 
-      // Create a FileSystemWritableFileStream to write to
-      const writable = await handle.createWritable();
-      // Write the contents of the file to the stream
-      await writable.write(blob);
-      // Close the file and write the contents to disk
-      await writable.close();
-    } catch (err: unknown) {
-      // If the user cancels the save dialog, we don't need to show an error
-      if (err instanceof Error && err.name !== 'AbortError' && blob) {
-        console.error('Export error:', err);
-        // Fallback to direct download if the save dialog API is not supported
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.setAttribute('href', url);
-        link.setAttribute('download', 'anki_import.csv');
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+  // Known words can be imported from a plain word list (one per line), an
+  // Anki text export or an .apkg deck, which is read on the server
+  const importKnownWords = async (listFile: File) => {
+    try {
+      let words: string[];
+      if (listFile.name.toLowerCase().endsWith('.apkg')) {
+        const form = new FormData();
+        form.append('file', listFile);
+        const response = await fetch('/api/known-words/import', { method: 'POST', body: form });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to read deck');
+        }
+        words = data.words;
+      } else {
+        words = parseWordList(await listFile.text());
       }
+
+      await addKnownWords(words, 'import');
+      setKnownWords(prev => new Set([...prev, ...words]));
+      flashToast(`Imported ${words.length} known words`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import known words');
+      console.error('Import error:', err);
     }
   };
 
-  const handleWordClick = (word: WordResult) => {
-    setSelectedWord(word);
-    setIsModalOpen(true);
+  const resetKnownWords = () => {
+    if (!confirm(`Forget all ${knownWords.size} known words?`)) {
+      return;
+    }
+    clearKnownWords()
+      .then(() => setKnownWords(new Set()))
+      .catch(err => console.error('Failed to clear known words: ', err));
   };
 
+  const groupRanks = rankWithinGroups(results);
+  const searchedResults = results.filter(result => matchesSearch(result, search.trim()));
+  const resultGroups = WORD_GROUP_OPTIONS
+    .map(option => ({ ...option, count: searchedResults.filter(result => groupOf(result) === option.value).length }))
+    .filter(({ count }) => count > 0);
+  const shownResults = groupResults(sortResults(
+    searchedResults.filter(result => !hiddenGroups.includes(groupOf(result))),
+    sort
+  ));
+  const shownGroups = resultGroups.filter(({ value }) => !hiddenGroups.includes(value));
+  const pageCount = Math.max(1, Math.ceil(shownResults.length / PAGE_SIZE));
+  // Marking words as known can shrink the list below the current page
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageResults = shownResults.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
   const Toast = () => (
     <div className="fixed bottom-8 left-8 bg-black text-white px-4 py-2 rounded-lg 
                     shadow-lg transition-opacity duration-200 z-50">
-      Content has been copied
+      {toast}
     </div>
   );
 
   return (
     <>
       <header className="h-[80px] flex items-center">
-        <div className="container mx-auto px-4">
+        <div className="container mx-auto px-4 flex items-center justify-between">
           <span className="text-[20px] text-[#393939]">luminos.jp</span>
+          <nav className="flex items-center gap-4">
+            <Link href="/review" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Review
+            </Link>
+            <Link href="/history" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              History
+            </Link>
+            <Link href="/compare" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Compare
+            </Link>
+          </nav>
         </div>
       </header>
       <main className="container mx-auto px-4 py-8">
@@ -238,30 +545,73 @@ export default function Home() {
           </h1>
 
           <p className="font-inter text-base md:text-lg leading-relaxed tracking-[-3%] text-[#0D0C22]/70 max-w-[660px] text-center mb-[30px]">
-            Paste a link to a Japanese webpage, and we&apos;ll reveal the most used words—unlocking insights at a glance.
+            Paste a link, some text or a file in Japanese, and we&apos;ll reveal the most used words—unlocking insights at a glance.
           </p>
 
+          <div className="mb-4 flex justify-center gap-2">
+            {INPUT_MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setInputMode(value)}
+                className={`h-[30px] px-4 rounded-full font-manrope text-[13px] transition-colors
+                          ${inputMode === value
+                            ? 'bg-[#0D0C22] text-white'
+                            : 'text-[#0D0C22]/70 hover:bg-[#F3F3F6]'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           <div className="w-full max-w-[700px] mx-auto">
-            <div className="flex items-center bg-[#F3F3F6] rounded-full">
-              <input
-                type="text"
-                value={url}
-                onChange={(e) => setUrl(e.target.value)}
-                placeholder="Enter link here..."
-                className="flex-1 h-[53px] text-[14px] 
-                         text-[#0D0C22]/70 placeholder-[#0D0C22]/70
-                         border-none bg-transparent
-                         font-manrope tracking-[0%]
-                         pl-[24px] pr-[8px] py-[6px]
-                         focus:outline-none focus:ring-0"
-              />
+            <div className={`flex bg-[#F3F3F6] ${inputMode === 'text' ? 'items-end rounded-[24px]' : 'items-center rounded-full'}`}>
+              {inputMode === 'url' && (
+                <input
+                  type="text"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  placeholder="Enter link here..."
+                  className="flex-1 h-[53px] text-[14px] 
+                           text-[#0D0C22]/70 placeholder-[#0D0C22]/70
+                           border-none bg-transparent
+                           font-manrope tracking-[0%]
+                           pl-[24px] pr-[8px] py-[6px]
+                           focus:outline-none focus:ring-0"
+                />
+              )}
+              {inputMode === 'text' && (
+                <textarea
+                  value={pastedText}
+                  onChange={(e) => setPastedText(e.target.value)}
+                  placeholder="Paste Japanese text here..."
+                  rows={6}
+                  className="flex-1 text-[14px] resize-y
+                           text-[#454548] placeholder-[#0D0C22]/70
+                           border-none bg-transparent
+                           font-manrope tracking-[0%]
+                           pl-[24px] pr-[8px] py-[16px]
+                           focus:outline-none focus:ring-0"
+                />
+              )}
+              {inputMode === 'file' && (
+                <label className="flex-1 h-[53px] flex items-center pl-[24px] pr-[8px]
+                                font-manrope text-[14px] text-[#0D0C22]/70 cursor-pointer truncate">
+                  <input
+                    type="file"
+                    accept={FILE_ACCEPT}
+                    onChange={(e) => setFile(e.target.files?.[0] || null)}
+                    className="hidden"
+                  />
+                  {file ? file.name : 'Choose a .txt, .html, .srt, .vtt or .epub file...'}
+                </label>
+              )}
               <button
                 onClick={analyzeText}
-                disabled={loading || !tokenizer}
-                className="w-[40px] h-[40px] rounded-full
+                disabled={loading}
+                className={`w-[40px] h-[40px] rounded-full shrink-0
                          bg-[#6565FF] hover:bg-[#6565FF]
                          flex items-center justify-center
-                         mr-2"
+                         mr-2 ${inputMode === 'text' ? 'mb-2' : ''}`}
               >
                 {loading ? (
                   <div className="w-[16px] h-[16px] border-2 border-white border-t-transparent rounded-full animate-spin" />
@@ -272,11 +622,178 @@ export default function Home() {
             </div>
           </div>
 
-          <div className="mt-4 text-sm text-gray-600 text-center">
-            Example: https://www3.nhk.or.jp/news
+          {inputMode === 'url' && (
+            <div className="mt-4 text-sm text-gray-600 text-center">
+              Example: https://www3.nhk.or.jp/news
+            </div>
+          )}
+
+          <div className="mt-4 flex flex-wrap justify-center gap-2">
+            {POS_OPTIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => togglePos(value)}
+                className={`h-[30px] px-3 rounded-full font-manrope text-[12px] border transition-colors
+                          ${posFilter.includes(value)
+                            ? 'bg-[#6565FF] border-[#6565FF] text-white'
+                            : 'bg-[#F3F3F6] border-[#C8C8C8] text-[#000000]/60 hover:bg-[#E5E5E5]'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center justify-center gap-2 font-manrope text-[12px] text-[#000000]/60">
+            Rank by
+            {RANK_OPTIONS.map(({ value, label, description }) => (
+              <button
+                key={value}
+                onClick={() => setRankStrategy(value)}
+                disabled={needsFrequencyData(value) && !frequencySource}
+                title={needsFrequencyData(value)
+                  ? frequencySource
+                    ? `${description}, compared with ${frequencySource}`
+                    : `${description}. Needs reference frequencies: run npm run build-frequency`
+                  : description}
+                className={`h-[26px] px-3 rounded-full border transition-colors disabled:opacity-40
+                          ${rankStrategy === value
+                            ? 'bg-[#0D0C22] border-[#0D0C22] text-white'
+                            : 'bg-[#F3F3F6] border-[#C8C8C8] text-[#000000]/60 hover:bg-[#E5E5E5]'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-3 flex items-center justify-center gap-2 font-manrope text-[12px] text-[#000000]/60">
+            Level
+            <select
+              value={easiestLevel}
+              onChange={(e) => setEasiestLevel(e.target.value as JlptLevel)}
+              className="h-[26px] px-2 rounded-full bg-[#F3F3F6] border border-[#C8C8C8]"
+            >
+              {JLPT_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+            to
+            <select
+              value={hardestLevel}
+              onChange={(e) => setHardestLevel(e.target.value as JlptLevel)}
+              className="h-[26px] px-2 rounded-full bg-[#F3F3F6] border border-[#C8C8C8]"
+            >
+              {JLPT_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </div>
+
+          <div className="mt-3 flex flex-wrap items-center justify-center gap-2 font-manrope text-[12px] text-[#000000]/60">
+            Show
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={resultLimit}
+              onChange={(e) => setResultLimit(Math.max(1, Number(e.target.value) || 1))}
+              className="w-[64px] h-[26px] px-2 rounded-full bg-[#F3F3F6] border border-[#C8C8C8]"
+            />
+            words per group from the top
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={candidatePool}
+              onChange={(e) => setCandidatePool(Math.max(1, Number(e.target.value) || 1))}
+              title="Words looked up in the dictionary to fill the results"
+              className="w-[64px] h-[26px] px-2 rounded-full bg-[#F3F3F6] border border-[#C8C8C8]"
+            />
+            candidates, seen at least
+            <input
+              type="number"
+              min={1}
+              value={minCount}
+              onChange={(e) => setMinCount(Math.max(1, Number(e.target.value) || 1))}
+              className="w-[52px] h-[26px] px-2 rounded-full bg-[#F3F3F6] border border-[#C8C8C8]"
+            />
+            times
+          </div>
+
+          {inputMode === 'url' && (
+            <label className="mt-3 flex items-center gap-2 font-manrope text-[12px] text-[#000000]/60 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={fullPage}
+                onChange={(e) => setFullPage(e.target.checked)}
+                className="accent-[#6565FF]"
+              />
+              Analyze the whole page instead of just the article
+            </label>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center justify-center gap-3 font-manrope text-[12px] text-[#000000]/60">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={hideKnown}
+                onChange={(e) => setHideKnown(e.target.checked)}
+                className="accent-[#6565FF]"
+              />
+              Hide my {knownWords.size} known words
+            </label>
+            <input
+              ref={knownWordsInput}
+              type="file"
+              accept={KNOWN_WORDS_ACCEPT}
+              onChange={(e) => {
+                const listFile = e.target.files?.[0];
+                if (listFile) {
+                  importKnownWords(listFile);
+                }
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            <button
+              onClick={() => knownWordsInput.current?.click()}
+              className="underline underline-offset-2 hover:text-[#0D0C22]"
+            >
+              Import list or Anki deck
+            </button>
+            {knownWords.size > 0 && (
+              <button
+                onClick={resetKnownWords}
+                className="underline underline-offset-2 hover:text-[#0D0C22]"
+              >
+                Clear
+              </button>
+            )}
           </div>
         </div>
 
+        {article && article.title && !loading && (
+          <div className="mt-6 text-center">
+            <div className="font-manrope text-lg text-[#0D0C22]">{article.title}</div>
+            {(article.byline || article.publishedAt) && (
+              <div className="text-xs text-gray-600 mt-1">
+                {[article.byline, article.publishedAt].filter(Boolean).join(' · ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        {levelSummary && levelSummary.total > 0 && !loading && (
+          <div className="mt-3 flex flex-wrap justify-center gap-3 font-manrope text-[12px] text-[#000000]/60">
+            {Object.entries(cumulativeLevelShare(levelSummary)).map(([level, share]) => (
+              <span key={level}>
+                {Math.round(share * 100)}% {level}{level === 'N5' ? '' : ' or easier'}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {report && !loading && (
+          <div className="mt-6">
+            <ReportPanel report={report} />
+          </div>
+        )}
+
         {results.length > 0 && (
           <div className="fixed bottom-8 right-8 z-50 flex flex-col sm:flex-row gap-4">
             <button
@@ -303,7 +820,18 @@ export default function Home() {
               Copy Results
             </button>
             <button
-              onClick={exportToAnki}
+              onClick={() => studyWords(results)}
+              className="flex items-center justify-center gap-2 h-[40px] px-5 py-[10px]
+                       font-manrope font-medium text-[13px] text-[#000000]/60
+                       bg-[#F3F3F6] border border-[#C8C8C8]
+                       rounded-full hover:bg-[#E5E5E5] transition-colors
+                       shadow-[0_2px_4px_0px_rgba(16,24,40,0.06)]"
+            >
+              <BookmarkPlus className="w-5 h-5" />
+              Study All
+            </button>
+            <button
+              onClick={() => setIsExportOpen(true)}
               className="flex items-center justify-center gap-2 h-[40px] px-5 py-[10px]
                        font-manrope font-medium text-[13px] text-[#000000]/60
                        bg-[#F3F3F6] border border-[#C8C8C8]
@@ -328,96 +856,292 @@ export default function Home() {
           </div>
         )}
 
-        <div className="bg-white rounded-lg mt-6">
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {error && error !== 'no_words_found' ? (
-              <div className="text-red-500 text-center col-span-full">{error}</div>
-            ) : loading ? (
-              <div className="flex flex-col items-center justify-center gap-4 w-full col-span-full">
-                <div className="dot-pulse"></div>
-                <div className="text-blue-500">Analyzing... Please wait.</div>
+        {reader && !loading && (
+          <div className="mt-6 flex flex-wrap items-center justify-center gap-2 font-manrope text-[12px] text-[#000000]/60">
+            {RESULT_VIEWS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setView(value)}
+                className={`h-[30px] px-4 rounded-full text-[13px] transition-colors
+                          ${view === value
+                            ? 'bg-[#0D0C22] text-white'
+                            : 'text-[#0D0C22]/70 hover:bg-[#F3F3F6]'}`}
+              >
+                {label}
+              </button>
+            ))}
+            {view === 'reader' && (
+              <>
+                <span className="ml-4">Furigana</span>
+                {FURIGANA_MODES.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => setFurigana(value)}
+                    className={`h-[26px] px-3 rounded-full border transition-colors
+                              ${furigana === value
+                                ? 'bg-[#6565FF] border-[#6565FF] text-white'
+                                : 'bg-[#F3F3F6] border-[#C8C8C8] hover:bg-[#E5E5E5]'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+
+        {reader && view === 'reader' && !loading ? (
+          <div className="mt-6">
+            <ReaderView
+              segments={reader.segments}
+              topWords={new Set(results.map(({ word }) => word))}
+              knownWords={knownWords}
+              furigana={furigana}
+              onWordClick={openReaderWord}
+            />
+          </div>
+        ) : topKanji.length > 0 && view === 'kanji' && !loading ? (
+          <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {topKanji.map(({ literal, count, info }) => info ? (
+              <KanjiCard key={literal} info={info} count={count} />
+            ) : (
+              <div key={literal} className="flex gap-3 rounded-lg border border-[#D9D9D9] p-3 bg-white">
+                <span className="text-3xl leading-none text-[#0D0C22]">{literal}</span>
+                <div className="text-[10px] text-gray-400">×{count}</div>
               </div>
-            ) : results.length > 0 ? (
-              results.map(({ word, count, reading, definition, partOfSpeech, extraReadings }, index) => (
-                <div 
-                  key={index} 
-                  className="bg-white rounded-lg p-3 border border-[#D9D9D9] 
-                           flex flex-col
-                           w-full h-[105px]"
+            ))}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg mt-6">
+            {results.length > 0 && !loading && (
+              <div className="mb-4 flex flex-wrap items-center gap-2 font-manrope text-[12px] text-[#000000]/60">
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(0);
+                  }}
+                  placeholder="Search results..."
+                  className="h-[30px] w-[200px] px-3 rounded-full bg-[#F3F3F6] border border-[#C8C8C8] focus:outline-none"
+                />
+                <span className="ml-2">Sort by</span>
+                <select
+                  value={sort}
+                  onChange={(e) => {
+                    setSort(e.target.value as ResultSort);
+                    setPage(0);
+                  }}
+                  className="h-[26px] px-2 rounded-full bg-[#F3F3F6] border border-[#C8C8C8]"
                 >
-                  {/* Top row: Kanji and icons */}
-                  <div className="flex justify-between items-start">
-                    <div className="flex items-center gap-2">
-                      <span 
-                        className={`font-bold ${word.length > 3 ? 'text-sm' : 'text-base'} 
-                                   cursor-pointer hover:text-blue-600 transition-colors
-                                   underline underline-offset-4`}
-                        onClick={() => handleWordClick({
-                          word,
-                          reading,
-                          definition,
-                          partOfSpeech,
-                          count,
-                          extraReadings
-                        })}
-                      >
-                        {word}
-                      </span>
-                      <span className={`text-gray-600 ${word.length > 3 ? 'text-[10px]' : 'text-xs'}`}>
-                        ({reading})
-                      </span>
-                    </div>
-                    
-                    <div className="flex items-center gap-2">
-                      <span className="text-xs text-[#0F0F0F]">#{index + 1}</span>
-                      <button 
-                        onClick={() => {
-                          navigator.clipboard.writeText(
-                            `${word} (${reading})\n${partOfSpeech || 'noun'}\n${definition}`
-                          )
-                          .then(() => {
-                            setShowToast(true);
-                            setTimeout(() => setShowToast(false), 2000);
-                          })
-                          .catch(err => console.error('Failed to copy text: ', err));
-                        }}
-                        className="rounded-full"
-                      >
-                        <svg 
-                          className="w-3.5 h-3.5 text-[#0F0F0F]"
-                          fill="none" 
-                          stroke="currentColor" 
-                          viewBox="0 0 24 24"
-                        >
-                          <path 
-                            strokeLinecap="round" 
-                            strokeLinejoin="round" 
-                            strokeWidth={2} 
-                            d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" 
-                          />
-                        </svg>
-                      </button>
-                    </div>
+                  {RESULT_SORTS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                {resultGroups.length > 1 && resultGroups.map(({ value, label, count }) => (
+                  <button
+                    key={value}
+                    onClick={() => toggleGroup(value)}
+                    title={hiddenGroups.includes(value) ? `Show ${label.toLowerCase()}` : `Hide ${label.toLowerCase()}`}
+                    className={`h-[26px] px-3 rounded-full border transition-colors
+                              ${hiddenGroups.includes(value)
+                                ? 'bg-[#F3F3F6] border-[#C8C8C8] text-[#000000]/60 hover:bg-[#E5E5E5]'
+                                : 'bg-[#6565FF] border-[#6565FF] text-white'}`}
+                  >
+                    {label} ({count})
+                  </button>
+                ))}
+                <span className="ml-auto">
+                  {shownResults.length === results.length
+                    ? `${results.length} words`
+                    : `${shownResults.length} of ${results.length} words`}
+                </span>
+              </div>
+            )}
+            {loading && (
+              <div className="mb-4 flex flex-col items-center gap-3 font-manrope">
+                {results.length === 0 && <div className="dot-pulse"></div>}
+                <div className="flex items-center gap-3">
+                  <span className="text-blue-500">{progressMessage()}</span>
+                  <button
+                    onClick={cancelAnalysis}
+                    className="h-[26px] px-3 rounded-full border border-[#C8C8C8] bg-[#F3F3F6] text-[12px] text-[#0D0C22]"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                {progress?.stage === 'lookup' && progress.total ? (
+                  <div className="w-full max-w-[320px] h-1.5 rounded-full bg-[#F3F3F6] overflow-hidden">
+                    <div
+                      className="h-full bg-[#6565FF] transition-all"
+                      style={{ width: `${Math.round(((progress.done || 0) / progress.total) * 100)}%` }}
+                    />
                   </div>
+                ) : null}
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+              {error && error !== 'no_words_found' ? (
+                <div className="text-red-500 text-center col-span-full">{error}</div>
+              ) : results.length > 0 ? (
+                pageResults.map((result, index) => {
+                  const { word, reading, definition, partOfSpeech, examples, score, level, frequencyBand, origin } = result;
+                  const group = shownGroups.find(({ value }) => value === groupOf(result));
+                  // Each section opens with a heading, repeated at the top of a page
+                  const startsSection = shownGroups.length > 1 &&
+                    (index === 0 || groupOf(pageResults[index - 1]) !== groupOf(result));
+                  const heading = startsSection && group && (
+                    <h3 key={`${group.value}-heading`} className="col-span-full mt-2 text-sm text-gray-600 font-manrope">
+                      {group.label} ({group.count})
+                    </h3>
+                  );
+                  return [
+                    heading,
+                    <div 
+                      key={word} 
+                      className="bg-white rounded-lg p-3 border border-[#D9D9D9] 
+                               flex flex-col
+                               w-full h-[105px]"
+                    >
+                      {/* Top row: Kanji and icons */}
+                      <div className="flex justify-between items-start">
+                        <div className="flex items-center gap-2">
+                          <span 
+                            className={`font-bold ${word.length > 3 ? 'text-sm' : 'text-base'} 
+                                       cursor-pointer hover:text-blue-600 transition-colors
+                                       underline underline-offset-4`}
+                            onClick={() => handleWordClick(result)}
+                          >
+                            {word}
+                          </span>
+                          <span className={`text-gray-600 ${word.length > 3 ? 'text-[10px]' : 'text-xs'}`}>
+                            ({reading})
+                          </span>
+                        </div>
+                    
+                        <div className="flex items-center gap-2">
+                          <span className="text-[10px] text-gray-500" title="Ranking score">{score}</span>
+                          <span className="text-xs text-[#0F0F0F]">#{groupRanks.get(word)}</span>
+                          {canSpeak() && (
+                            <button
+                              onClick={() => speakJapanese(word)}
+                              title="Play pronunciation"
+                              className="rounded-full"
+                            >
+                              <Volume2 className="w-3.5 h-3.5 text-[#0F0F0F]" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => studyWords([result])}
+                            title="Add to review"
+                            className="rounded-full"
+                          >
+                            <BookmarkPlus className="w-3.5 h-3.5 text-[#0F0F0F]" />
+                          </button>
+                          <button
+                            onClick={() => markKnown(word)}
+                            title="Mark as known"
+                            className="rounded-full"
+                          >
+                            <Check className="w-3.5 h-3.5 text-[#0F0F0F]" />
+                          </button>
+                          <button 
+                            onClick={() => {
+                              navigator.clipboard.writeText(
+                                `${word} (${reading})\n${partOfSpeech || 'noun'}\n${definition}` +
+                                (examples[0] ? `\n${examples[0].text}` : '')
+                              )
+                              .then(() => flashToast('Content has been copied'))
+                              .catch(err => console.error('Failed to copy text: ', err));
+                            }}
+                            className="rounded-full"
+                          >
+                            <svg 
+                              className="w-3.5 h-3.5 text-[#0F0F0F]"
+                              fill="none" 
+                              stroke="currentColor" 
+                              viewBox="0 0 24 24"
+                            >
+                              <path 
+                                strokeLinecap="round" 
+                                strokeLinejoin="round" 
+                                strokeWidth={2} 
+                                d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" 
+                              />
+                            </svg>
+                          </button>
+                        </div>
+                      </div>
 
-                  {/* Bottom row: Part of speech and definition */}
-                  <div className="mt-auto">
-                    <div className="text-[10px] mb-0.5 text-gray-600 leading-[15px]">
-                      {partOfSpeech.split(' ').slice(0, 2).join(' ')}
-                    </div>
-                    <div className="text-[12px] text-[#787878] leading-[15px] line-clamp-2 overflow-hidden">
-                      {definition}
+                      {/* Bottom row: Part of speech and definition */}
+                      <div className="mt-auto">
+                        <div className="flex items-center gap-1.5 text-[10px] mb-0.5 text-gray-600 leading-[15px]">
+                          {partOfSpeech.split(' ').slice(0, 2).join(' ')}
+                          {level && (
+                            <span className="px-1 rounded bg-[#EDEDFF] text-[#6565FF]">{level}</span>
+                          )}
+                          {frequencyBand && (
+                            <span className="px-1 rounded bg-[#F3F3F6]">{bandLabel(frequencyBand)}</span>
+                          )}
+                          {origin && (
+                            <span className="truncate" title={`From ${origin.language}`}>
+                              from {origin.word}
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-[12px] text-[#787878] leading-[15px] line-clamp-2 overflow-hidden">
+                          {definition}
+                        </div>
+                      </div>
                     </div>
-                  </div>
+                  ];
+                })
+              ) : error === 'no_words_found' ? (
+                <div className="text-yellow-600 font-medium text-center w-full col-span-full">
+                  Sorry, no Japanese words were found in this {inputMode === 'url' ? 'article. Please try another URL' : 'text'}.
+                </div>
+              ) : null}
+            </div>
+
+            {pageCount > 1 && !loading && (
+              <div className="mt-4 flex items-center justify-center gap-3 font-manrope text-[12px] text-[#000000]/60">
+                <button
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                  className="h-[26px] px-3 rounded-full border border-[#C8C8C8] bg-[#F3F3F6] disabled:opacity-40"
+                >
+                  Previous
+                </button>
+                Page {currentPage + 1} of {pageCount}
+                <button
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage === pageCount - 1}
+                  className="h-[26px] px-3 rounded-full border border-[#C8C8C8] bg-[#F3F3F6] disabled:opacity-40"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+
+            {noDefinition.length > 0 && !loading && (
+              <div className="mt-8">
+                <div className="text-sm text-gray-600 mb-2">
+                  No definition found ({noDefinition.length})
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {noDefinition.map(({ word, reading, count, examples }) => (
+                    <span
+                      key={word}
+                      title={examples[0]?.text}
+                      className="text-sm px-2 py-0.5 rounded bg-[#F3F3F6] text-[#393939]"
+                    >
+                      {word}
+                      <span className="ml-1 text-xs text-gray-500">({reading}) ×{count}</span>
+                    </span>
+                  ))}
                 </div>
-              ))
-            ) : error === 'no_words_found' ? (
-              <div className="text-yellow-600 font-medium text-center w-full col-span-full">
-                Sorry, no Japanese words were found in this article. Please try another URL.
               </div>
-            ) : null}
+            )}
           </div>
-        </div>
+        )}
       </main>
 
       <WordModal
@@ -425,15 +1149,39 @@ export default function Home() {
         reading={selectedWord?.reading || ''}
         definition={selectedWord?.definition || ''}
         partOfSpeech={selectedWord?.partOfSpeech || ''}
+        forms={selectedWord?.forms || []}
+        kanji={selectedWord?.kanji || []}
+        readings={selectedWord?.readings || []}
+        senses={selectedWord?.senses || []}
+        level={selectedWord?.level || null}
+        frequencyBand={selectedWord?.frequencyBand ?? null}
+        common={selectedWord?.common || false}
+        examples={selectedWord?.examples || []}
+        origin={selectedWord?.origin}
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
-        onCopy={() => {
-          setShowToast(true);
-          setTimeout(() => setShowToast(false), 2000);
+        onCopy={() => flashToast('Content has been copied')}
+        onAddToReview={() => {
+          if (selectedWord) {
+            studyWords([selectedWord]);
+          }
+        }}
+        onMarkKnown={() => {
+          if (selectedWord) {
+            markKnown(selectedWord.word);
+            setIsModalOpen(false);
+          }
         }}
       />
 
-      {showToast && <Toast />}
+      <ExportDialog
+        words={results}
+        sourceUrl={inputMode === 'url' ? url : ''}
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+      />
+
+      {toast && <Toast />}
     </>
   );
 }
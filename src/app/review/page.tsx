@@ -0,0 +1,179 @@
+'use client';
+
+import React from 'react';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Volume2 } from 'lucide-react';
+import { HighlightedSentence } from '../components/WordModal';
+import { REVIEW_GRADES, formatInterval, schedule, type ReviewGrade } from '@/lib/review/schedule';
+import { canSpeak, speakJapanese } from '@/lib/speech';
+import { DatabaseBlockedError } from '@/lib/storage/db';
+import {
+  dueCards,
+  getReviewCards,
+  gradeReviewCard,
+  reviewStats,
+  type ReviewCard,
+} from '@/lib/storage/reviews';
+
+export default function Review() {
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  // Today's session; cards graded "again" go back to the end and come up
+  // again once their relearning delay has passed
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [loading, setLoading] = useState(true);
+  const [revealed, setRevealed] = useState(false);
+  const [grading, setGrading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getReviewCards()
+      .then(all => {
+        setCards(all);
+        setQueue(dueCards(all, Date.now()));
+      })
+      .catch(err => {
+        console.error('Failed to load review cards: ', err);
+        if (err instanceof DatabaseBlockedError) setError(err.message);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const current = queue.find(card => card.due <= now);
+  // When only relearning cards are left, the next one to come due
+  const waitingUntil = current || queue.length === 0 ? null : Math.min(...queue.map(({ due }) => due));
+  const stats = reviewStats(cards, now);
+
+  useEffect(() => {
+    if (waitingUntil === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(0, waitingUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [waitingUntil]);
+
+  const grade = (value: ReviewGrade) => {
+    if (!current || grading) return;
+    setGrading(true);
+    gradeReviewCard(current, value)
+      .then(graded => {
+        setCards(prev => prev.map(card => card.word === graded.word ? graded : card));
+        setQueue(prev => {
+          const rest = prev.filter(card => card.word !== graded.word);
+          return value === 'again' ? [...rest, graded] : rest;
+        });
+        setNow(Date.now());
+        setRevealed(false);
+      })
+      .catch(err => console.error('Failed to save review: ', err))
+      .finally(() => setGrading(false));
+  };
+
+  return (
+    <>
+      <header className="h-[80px] flex items-center">
+        <div className="container mx-auto px-4 flex items-center justify-between">
+          <Link href="/" className="text-[20px] text-[#393939]">luminos.jp</Link>
+          <nav className="flex items-center gap-4">
+            <Link href="/" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Analyze
+            </Link>
+            <Link href="/history" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              History
+            </Link>
+            <Link href="/compare" className="text-sm text-[#393939] hover:text-[#6565FF]">
+              Compare
+            </Link>
+          </nav>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8 max-w-[600px]">
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600 mb-6">
+          <span>{queue.length} left today</span>
+          <span>{stats.total} cards</span>
+          <span>{stats.unseen} new</span>
+          <span>{stats.reviewedToday} reviewed today</span>
+          {stats.retentionToday !== null && (
+            <span>{Math.round(stats.retentionToday * 100)}% remembered</span>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center">
+            <div className="dot-pulse"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center text-red-500">{error}</div>
+        ) : waitingUntil !== null ? (
+          <div className="text-center text-gray-600">
+            Cards you missed come back in {formatInterval(now, waitingUntil)}.
+          </div>
+        ) : !current ? (
+          <div className="text-center text-gray-600">
+            {stats.total === 0
+              ? 'Your review deck is empty. Add words from an analysis to start studying.'
+              : 'All done for today.'}
+          </div>
+        ) : (
+          <div className="rounded-lg border border-[#D9D9D9] bg-white p-6">
+            <div className="flex items-center justify-center gap-2">
+              <span className="text-4xl font-bold text-[#0D0C22]">{current.word}</span>
+              {canSpeak() && (
+                <button
+                  onClick={() => speakJapanese(current.word)}
+                  title="Play pronunciation"
+                  className="rounded-full"
+                >
+                  <Volume2 className="w-5 h-5 text-[#0F0F0F]" />
+                </button>
+              )}
+            </div>
+
+            {revealed ? (
+              <div className="mt-6 space-y-4">
+                <div className="text-center">
+                  <div className="text-lg text-gray-600">{current.reading}</div>
+                  <div className="text-xs text-gray-600 mt-1">{current.partOfSpeech}</div>
+                  <div className="text-base text-[#787878] leading-relaxed">{current.definition}</div>
+                </div>
+                {current.example && (
+                  <div>
+                    <div className="text-sm text-gray-600 mb-1">
+                      From {current.source || 'the article'}
+                    </div>
+                    <div className="text-sm text-[#393939] leading-relaxed">
+                      <HighlightedSentence {...current.example} />
+                    </div>
+                  </div>
+                )}
+                <div className="grid grid-cols-4 gap-2">
+                  {REVIEW_GRADES.map(({ value, label }) => {
+                    return (
+                      <button
+                        key={value}
+                        onClick={() => grade(value)}
+                        disabled={grading}
+                        className="flex flex-col items-center h-[48px] justify-center rounded-lg border border-[#D9D9D9] text-[13px] text-[#0D0C22] hover:bg-[#F3F3F6]"
+                      >
+                        {label}
+                        <span className="text-[10px] text-gray-500">
+                          {formatInterval(now, schedule(current, value, now).due)}
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setRevealed(true)}
+                className="mt-6 w-full h-[40px] rounded-full bg-[#0D0C22] text-white text-[13px]"
+              >
+                Show answer
+              </button>
+            )}
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
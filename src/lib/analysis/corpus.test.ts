@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { before, test } from 'node:test';
+import { analyzeCorpus } from './corpus';
+import type { CorpusDocument } from './types';
+
+// Definitions don't affect coverage, so the dictionary finds nothing
+before(() => {
+  process.env.DICTIONARY_PROVIDERS = 'jisho';
+  globalThis.fetch = async () => Response.json({ data: [] });
+});
+
+const article = (title: string) => ({ title, byline: '', publishedAt: '' });
+
+const documents: CorpusDocument[] = [
+  { source: 'https://example.com/a', article: article('Cats'), text: '猫が好きです。猫は可愛い。' },
+  { source: 'https://example.com/b', article: article(''), text: '犬が好きです。' },
+];
+
+test('measures coverage over all running words, grammatical ones included', async () => {
+  const { articles, words } = await analyzeCorpus(documents, { limit: 2 });
+  assert.deepEqual(words.map(({ word, counts }) => [word, counts]), [['猫', [2, 0]], ['好き', [1, 1]]]);
+
+  // 猫 が 好き です 猫 は 可愛い: the listed 猫 and 好き cover three of seven
+  assert.equal(articles[0].tokens, 7);
+  assert.equal(articles[0].distinct, 6);
+  assert.equal(articles[0].coverage, 3 / 7);
+  // 犬 が 好き です
+  assert.equal(articles[1].tokens, 4);
+  assert.equal(articles[1].coverage, 1 / 4);
+  assert.equal(articles[1].title, 'https://example.com/b');
+});
+
+test('compares the words of each article', async () => {
+  const { articles, shared } = await analyzeCorpus(documents);
+  assert.deepEqual(articles.map(({ unique }) => unique), [['猫', '可愛い'], ['犬']]);
+  assert.deepEqual(shared, ['好き']);
+});
+
+test('keeps excluded words out of the list but not out of the running words', async () => {
+  const { articles, words, coverageCurve } = await analyzeCorpus(documents, { exclude: ['猫'] });
+  assert.ok(!words.some(({ word }) => word === '猫'));
+  assert.equal(articles[0].tokens, 7);
+  // Seven distinct lemmas across both articles cover every running word
+  assert.deepEqual(coverageCurve, [{ words: 7, coverage: 1 }]);
+});
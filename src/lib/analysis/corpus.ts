@@ -0,0 +1,126 @@
+import * as wanakana from 'wanakana';
+import { lookupWords, summarizeEntry } from '../dictionary';
+import { countLemmas, isWordToken, lemmaOf, type LemmaCount } from './count';
+import { ALL_POS } from './pos';
+import { locateTokens, type LocatedToken } from './sentences';
+import { getTokenizer } from './tokenizer';
+import type {
+  AnalyzeOptions,
+  CorpusArticle,
+  CorpusDocument,
+  CorpusResult,
+  CorpusWord,
+  CoveragePoint,
+} from './types';
+
+const DEFAULT_LIMIT = 50;
+const UNIQUE_PER_ARTICLE = 20;
+const SHARED_LIMIT = 50;
+const CURVE_STEPS = [10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+
+const sumCounts = (counts: Iterable<number>) => {
+  let total = 0;
+  for (const count of counts) total += count;
+  return total;
+};
+
+// Share of all running words covered by the top N lemmas, for growing N
+function coverageCurve(counts: number[]): CoveragePoint[] {
+  const sorted = [...counts].sort((a, b) => b - a);
+  const total = sumCounts(sorted);
+  if (total === 0) return [];
+  const steps = [...CURVE_STEPS.filter(step => step < sorted.length), sorted.length];
+  let covered = 0;
+  let taken = 0;
+  return steps.map(words => {
+    for (; taken < words; taken++) covered += sorted[taken];
+    return { words, coverage: covered / total };
+  });
+}
+
+// Occurrences of each lemma among all the words of a text
+const countRunningWords = (tokens: LocatedToken[]) => {
+  const counts = new Map<string, number>();
+  tokens.filter(isWordToken).map(lemmaOf).forEach(lemma => counts.set(lemma, (counts.get(lemma) || 0) + 1));
+  return counts;
+};
+
+// Analyzes several texts as one set. Coverage is measured over all running
+// words, grammatical ones included, as in the report of a single analysis.
+// The merged word list honours the part-of-speech filter and excluded words,
+// and each article's coverage is the share of its words that are on that list.
+export async function analyzeCorpus(
+  documents: CorpusDocument[],
+  options: Pick<AnalyzeOptions, 'pos' | 'limit' | 'exclude'> = {}
+): Promise<CorpusResult> {
+  const { pos = ALL_POS, limit = DEFAULT_LIMIT, exclude = [] } = options;
+  const excluded = new Set(exclude);
+  const tokenizer = await getTokenizer();
+
+  const perArticle = documents.map(({ text }) => {
+    const tokens = locateTokens(text, tokenizer.tokenize(text));
+    return {
+      all: countRunningWords(tokens),
+      filtered: countLemmas(tokens, pos).filter(({ lemma }) => !excluded.has(lemma)),
+    };
+  });
+
+  const totals = new Map<string, number>();
+  perArticle.forEach(({ all }) => all.forEach((count, lemma) => {
+    totals.set(lemma, (totals.get(lemma) || 0) + count);
+  }));
+  const merged = new Map<string, LemmaCount & { counts: number[] }>();
+  perArticle.forEach(({ filtered }, index) => filtered.forEach(entry => {
+    const word = merged.get(entry.lemma) || { ...entry, count: 0, counts: documents.map(() => 0) };
+    word.count += entry.count;
+    word.counts[index] = entry.count;
+    word.reading ||= entry.reading;
+    merged.set(entry.lemma, word);
+  }));
+  const ranked = Array.from(merged.values()).sort((a, b) => b.count - a.count);
+
+  const topWords = ranked.slice(0, limit);
+  const listed = new Set(topWords.map(({ lemma }) => lemma));
+  const entries = await lookupWords(topWords.map(({ lemma }) => lemma));
+  const words: CorpusWord[] = topWords.map(({ lemma, reading, count, counts }, index) => {
+    const entry = entries[index];
+    const data = entry && !(entry instanceof Error) && entry.senses.length > 0 ? summarizeEntry(entry) : null;
+    return {
+      word: lemma,
+      reading: data?.reading || reading || wanakana.toRomaji(lemma),
+      definition: data?.definition || '',
+      count,
+      counts,
+      articles: counts.filter(Boolean).length,
+    };
+  });
+
+  const articles: CorpusArticle[] = documents.map(({ source, article }, index) => {
+    const { all } = perArticle[index];
+    const tokens = sumCounts(all.values());
+    const covered = sumCounts(Array.from(all).filter(([lemma]) => listed.has(lemma)).map(([, count]) => count));
+    return {
+      source,
+      title: article.title || source,
+      tokens,
+      distinct: all.size,
+      coverage: tokens ? covered / tokens : 0,
+      unique: ranked
+        .filter(({ counts }) => counts[index] > 0 && counts.filter(Boolean).length === 1)
+        .slice(0, UNIQUE_PER_ARTICLE)
+        .map(({ lemma }) => lemma),
+    };
+  });
+
+  return {
+    articles,
+    words,
+    shared: documents.length > 1
+      ? ranked
+        .filter(({ counts }) => counts.every(Boolean))
+        .slice(0, SHARED_LIMIT)
+        .map(({ lemma }) => lemma)
+      : [],
+    coverageCurve: coverageCurve(Array.from(totals.values())),
+  };
+}
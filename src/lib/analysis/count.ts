@@ -0,0 +1,80 @@
+import type { Token } from 'kuromoji';
+import * as wanakana from 'wanakana';
+import { categorizeToken } from './pos';
+import type { LocatedToken } from './sentences';
+import type { PosCategory, WordGroup } from './types';
+
+export interface LemmaCount {
+  lemma: string;
+  count: number;
+  reading: string;
+  category: PosCategory;
+  group: WordGroup;
+  forms: string[];
+  // Where each occurrence appears in the analyzed text
+  occurrences: { start: number; end: number }[];
+}
+
+export const isKanji = (text: string): boolean => {
+  return /[\u4E00-\u9FAF]/.test(text);
+};
+
+export const lemmaOf = (token: Token) =>
+  token.basic_form && token.basic_form !== '*' ? token.basic_form : token.surface_form;
+
+// Every token of running text, grammatical words included, but not
+// punctuation and symbols
+export const isWordToken = (token: Token) => token.pos !== '記号' && Boolean(token.surface_form.trim());
+
+// Proper nouns (people, places, organizations) are tagged by the tokenizer.
+// Other words need kanji, or to be written entirely in katakana; words in
+// hiragana alone are mostly grammar and are left out.
+export const wordGroupOf = (token: Token, lemma: string): WordGroup | null => {
+  if (token.pos_detail_1 === '固有名詞') {
+    return /[ぁ-ゖァ-ヺ\u4E00-\u9FAF]/.test(lemma) ? 'name' : null;
+  }
+  if (isKanji(lemma)) return 'vocabulary';
+  return /^[ァ-ヺー]{2,}$/.test(lemma) ? 'loanword' : null;
+};
+
+// Collects words by dictionary form so that inflections like 食べた and
+// 食べます are counted together under 食べる. Sorted by count, highest first.
+export function countLemmas(
+  tokens: LocatedToken[],
+  posFilter: PosCategory[],
+  groups: WordGroup[] = ['vocabulary']
+): LemmaCount[] {
+  const lemmas = new Map<string, LemmaCount & { formSet: Set<string> }>();
+
+  tokens.forEach(token => {
+    const category = categorizeToken(token);
+    if (!category || !posFilter.includes(category)) return;
+
+    const lemma = lemmaOf(token);
+    const group = wordGroupOf(token, lemma);
+    if (!group || !groups.includes(group)) return;
+
+    const entry = lemmas.get(lemma) || {
+      lemma,
+      count: 0,
+      reading: '',
+      category,
+      group,
+      forms: [],
+      occurrences: [],
+      formSet: new Set<string>(),
+    };
+    entry.count += 1;
+    entry.formSet.add(token.surface_form);
+    entry.occurrences.push({ start: token.start, end: token.end });
+    // The token reading is only the lemma's reading when it is uninflected
+    if (!entry.reading && token.surface_form === lemma && token.reading && token.reading !== '*') {
+      entry.reading = wanakana.toHiragana(token.reading);
+    }
+    lemmas.set(lemma, entry);
+  });
+
+  return Array.from(lemmas.values())
+    .map(({ formSet, ...entry }) => ({ ...entry, forms: Array.from(formSet) }))
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { splitFurigana } from './furigana';
+
+test('keeps okurigana out of the furigana', () => {
+  assert.deepEqual(splitFurigana('食べる', 'たべる'), [
+    { text: '食', reading: 'た' },
+    { text: 'べる' },
+  ]);
+});
+
+test('keeps leading kana out of the furigana', () => {
+  assert.deepEqual(splitFurigana('お茶', 'おちゃ'), [
+    { text: 'お' },
+    { text: '茶', reading: 'ちゃ' },
+  ]);
+});
+
+test('gives a compound a single reading', () => {
+  assert.deepEqual(splitFurigana('日本語', 'にほんご'), [{ text: '日本語', reading: 'にほんご' }]);
+});
+
+test('leaves words without kanji alone', () => {
+  assert.deepEqual(splitFurigana('テレビ', 'てれび'), [{ text: 'テレビ' }]);
+  assert.deepEqual(splitFurigana('する', 'する'), [{ text: 'する' }]);
+  assert.deepEqual(splitFurigana('猫', ''), [{ text: '猫' }]);
+});
+
+test('keeps trailing kana of any length out of the furigana', () => {
+  assert.deepEqual(splitFurigana('見る', 'みる'), [
+    { text: '見', reading: 'み' },
+    { text: 'る' },
+  ]);
+  assert.deepEqual(splitFurigana('子供っぽい', 'こどもっぽい'), [
+    { text: '子供', reading: 'こども' },
+    { text: 'っぽい' },
+  ]);
+});
@@ -0,0 +1,33 @@
+export interface FuriganaPart {
+  text: string;
+  // Set on the part that needs furigana
+  reading?: string;
+}
+
+const isKana = (char: string) => /[ぁ-ゖァ-ヺー]/.test(char);
+
+// Splits a word into the part that needs furigana and the kana around it,
+// e.g. 食べる + たべる -> 食 (た) + べる. Kana shared by the start or end of
+// the word and its reading are kept out so they don't get furigana of their own.
+export function splitFurigana(word: string, reading: string): FuriganaPart[] {
+  if (!reading || word === reading || !/[一-龯々]/.test(word)) return [{ text: word }];
+
+  let start = 0;
+  while (start < word.length && start < reading.length
+    && isKana(word[start]) && word[start] === reading[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (end < word.length - start && end < reading.length - start
+    && isKana(word[word.length - 1 - end]) && word[word.length - 1 - end] === reading[reading.length - 1 - end]) {
+    end++;
+  }
+
+  const parts: FuriganaPart[] = [
+    { text: word.slice(0, start) },
+    { text: word.slice(start, word.length - end), reading: reading.slice(start, reading.length - end) },
+    { text: word.slice(word.length - end) },
+  ];
+  return parts.filter(({ text }) => text);
+}
@@ -0,0 +1,184 @@
+import * as wanakana from 'wanakana';
+import { lookupWords, summarizeEntry, type DictionaryEntry } from '../dictionary';
+import { frequencyBandFor, getFrequencyData } from '../frequency';
+import { getJlptLevels, normalizeJlptLevel } from '../jlpt';
+import { countKanji } from '../kanji';
+import { countLemmas } from './count';
+import { summarizeLevels } from './levels';
+import { ALL_GROUPS, ALL_POS } from './pos';
+import { rankLemmas } from './rank';
+import { buildReader } from './reader';
+import { buildReport } from './report';
+import { locateTokens, pickExamples, splitSentences } from './sentences';
+import { getTokenizer } from './tokenizer';
+import type { JlptLevel } from '../jlpt';
+import type { AnalysisResult, AnalyzeHooks, AnalyzeOptions, ArticleInfo, WordGroup, WordResult } from './types';
+
+export type {
+  AnalysisResult,
+  AnalyzeEvent,
+  AnalyzeHooks,
+  AnalyzeOptions,
+  AnalyzeProgress,
+  AnalyzeStage,
+  ArticleInfo,
+  CorpusArticle,
+  CorpusDocument,
+  CorpusResult,
+  CorpusWord,
+  CoveragePoint,
+  ExampleSentence,
+  LevelFilter,
+  LevelSummary,
+  ReaderSegment,
+  ReaderText,
+  PosCategory,
+  RankStrategy,
+  Script,
+  TextReport,
+  WordGroup,
+  WordResult,
+} from './types';
+export { analyzeCorpus } from './corpus';
+export { getTokenizer } from './tokenizer';
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_CANDIDATES = 50;
+const TOP_KANJI = 20;
+
+// Tokenizes text, ranks its lemmas with the chosen strategy and returns the
+// top ones that have a dictionary definition. Each word group gets its own
+// `limit` and `candidates`, so names and loanwords don't crowd out the
+// vocabulary. Candidates ranked above the last result of their group that
+// have no definition are returned separately.
+export async function analyzeText(
+  text: string,
+  article: ArticleInfo,
+  options: AnalyzeOptions = {},
+  { signal, onProgress, onWord }: AnalyzeHooks = {}
+): Promise<AnalysisResult> {
+  const {
+    pos = ALL_POS,
+    groups = ALL_GROUPS,
+    limit = DEFAULT_LIMIT,
+    candidates = DEFAULT_CANDIDATES,
+    minCount = 1,
+    exclude = [],
+    rank = 'count',
+    levels,
+    known = [],
+  } = options;
+  const excluded = new Set(exclude);
+  const allowedLevels = levels && new Set(levels);
+  const inRange = (level: JlptLevel | null) => !allowedLevels || allowedLevels.has(level || 'unlisted');
+
+  onProgress?.({ stage: 'tokenizing' });
+  const [tokenizer, frequency, jlptLevels] = await Promise.all([
+    getTokenizer(),
+    getFrequencyData(),
+    getJlptLevels(),
+  ]);
+  const tokens = locateTokens(text, tokenizer.tokenize(text));
+  const sentences = splitSentences(text);
+  const counted = countLemmas(tokens, pos, groups)
+    .filter(({ lemma, count }) => count >= minCount && !excluded.has(lemma))
+    // Words on no vocabulary list may still get a level from the dictionary,
+    // so only listed words can be dropped before lookup
+    .filter(({ lemma }) => !jlptLevels.listed(lemma) || inRange(jlptLevels.listed(lemma)));
+  const pool = Math.max(candidates, limit);
+  const considered = new Map<WordGroup, number>();
+  const topWords = rankLemmas(counted, rank, frequency).filter(({ group }) => {
+    const seen = (considered.get(group) || 0) + 1;
+    considered.set(group, seen);
+    return seen <= pool;
+  });
+
+  const words: WordResult[] = [];
+  const noDefinition: WordResult[] = [];
+  const collected = new Map<WordGroup, number>();
+  const isFull = (group: WordGroup) => (collected.get(group) || 0) >= limit;
+  const unsettled = new Map<WordGroup, number>();
+  for (const { group } of topWords) unsettled.set(group, (unsettled.get(group) || 0) + 1);
+  // A group is done once it's full or has no lookups left to wait for
+  const isDone = (group: WordGroup) => isFull(group) || !unsettled.get(group);
+  const settled = new Map<number, DictionaryEntry | null | Error>();
+  let next = 0;
+  // Aborted once every group is done, so the remaining candidates aren't
+  // looked up for nothing
+  const finished = new AbortController();
+  const lookupSignal = signal ? AbortSignal.any([signal, finished.signal]) : finished.signal;
+
+  // Lookups finish out of order; candidates are taken in rank order as soon
+  // as every higher-ranked one has settled. Candidates of a full group are
+  // passed over without waiting, as they can't be added anyway
+  const collect = () => {
+    for (; next < topWords.length && (settled.has(next) || isFull(topWords[next].group)); next++) {
+      const { lemma, count, score, reading, category, group, forms, occurrences } = topWords[next];
+      if (isFull(group)) continue;
+      const entry = settled.get(next);
+      const found = entry && !(entry instanceof Error) && entry.senses.length > 0;
+      const data = found ? summarizeEntry(entry) : null;
+      const level = jlptLevels.listed(lemma)
+        || normalizeJlptLevel(data?.jlpt?.[0] || '')
+        || jlptLevels.estimate(lemma);
+      if (!inRange(level)) continue;
+
+      const word: WordResult = {
+        word: lemma,
+        count,
+        score,
+        reading: data?.reading || reading || wanakana.toRomaji(lemma),
+        extraReadings: data?.extraReadings || 0,
+        definition: data?.definition || '',
+        partOfSpeech: data?.partOfSpeech || category,
+        forms,
+        kanji: data?.kanji || [],
+        readings: data?.readings || [],
+        senses: data?.senses || [],
+        jlpt: data?.jlpt || [],
+        level,
+        frequencyBand: frequencyBandFor(frequency.rank(lemma), frequency.size),
+        common: Boolean(data?.common),
+        examples: pickExamples(occurrences, sentences),
+        group,
+        ...(data?.origin && { origin: data.origin }),
+      };
+      if (data) {
+        words.push(word);
+        collected.set(group, (collected.get(group) || 0) + 1);
+        onWord?.(word);
+      } else {
+        noDefinition.push(word);
+      }
+    }
+  };
+
+  onProgress?.({ stage: 'lookup', done: 0, total: topWords.length });
+  await lookupWords(topWords.map(({ lemma }) => lemma), {
+    signal: lookupSignal,
+    skip: index => isFull(topWords[index].group),
+    onResult: (index, entry) => {
+      // Lookups already in flight when the signal fired still settle
+      if (lookupSignal.aborted) return;
+      const { group } = topWords[index];
+      settled.set(index, entry);
+      unsettled.set(group, (unsettled.get(group) || 0) - 1);
+      onProgress?.({ stage: 'lookup', done: settled.size, total: topWords.length });
+      collect();
+      if (Array.from(unsettled.keys()).every(isDone)) finished.abort();
+    },
+  }).catch(err => {
+    if (signal?.aborted || !finished.signal.aborted) throw err;
+  });
+
+  const levelSummary = summarizeLevels(countLemmas(tokens, ALL_POS), jlptLevels);
+  return {
+    article,
+    words,
+    noDefinition,
+    levels: levelSummary,
+    reader: buildReader(text, tokens, frequency, jlptLevels),
+    kanji: await countKanji(text, TOP_KANJI),
+    report: buildReport(text, tokens, sentences, levelSummary, known.length > 0 ? new Set(known) : null),
+  };
+}
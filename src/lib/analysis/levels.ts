@@ -0,0 +1,28 @@
+import type { JlptLevels } from '../jlpt';
+import { JLPT_LEVELS, type JlptLevel } from '../jlpt/levels';
+import type { LemmaCount } from './count';
+import type { LevelSummary } from './types';
+
+// Tallies every occurrence of every counted word by its JLPT level, so a
+// word used ten times weighs ten times as much as one used once. Callers pass
+// the kanji vocabulary only: levels are mostly estimated from kanji, so
+// kana-only words would all count as unlisted.
+export function summarizeLevels(lemmas: LemmaCount[], jlptLevels: JlptLevels): LevelSummary {
+  const counts: LevelSummary['counts'] = { N5: 0, N4: 0, N3: 0, N2: 0, N1: 0, unlisted: 0 };
+  let total = 0;
+  lemmas.forEach(({ lemma, count }) => {
+    counts[jlptLevels.estimate(lemma) || 'unlisted'] += count;
+    total += count;
+  });
+  return { counts, total };
+}
+
+// Share of the text at or below each level, so { N3: 0.62 } reads as
+// "62% N3 or easier"
+export function cumulativeLevelShare({ counts, total }: LevelSummary): Record<JlptLevel, number> {
+  let running = 0;
+  return Object.fromEntries(JLPT_LEVELS.map(level => {
+    running += counts[level];
+    return [level, total > 0 ? running / total : 0];
+  })) as Record<JlptLevel, number>;
+}
@@ -0,0 +1,41 @@
+import type { Token } from 'kuromoji';
+import type { PosCategory, WordGroup } from './types';
+
+export const POS_OPTIONS: { value: PosCategory; label: string }[] = [
+  { value: 'noun', label: 'Nouns' },
+  { value: 'verb', label: 'Verbs' },
+  { value: 'i-adjective', label: 'い-adjectives' },
+  { value: 'na-adjective', label: 'な-adjectives' },
+  { value: 'adverb', label: 'Adverbs' },
+];
+
+export const ALL_POS: PosCategory[] = POS_OPTIONS.map(option => option.value);
+
+export const WORD_GROUP_OPTIONS: { value: WordGroup; label: string }[] = [
+  { value: 'vocabulary', label: 'Vocabulary' },
+  { value: 'loanword', label: 'Katakana loanwords' },
+  { value: 'name', label: 'Names' },
+];
+
+export const ALL_GROUPS: WordGroup[] = WORD_GROUP_OPTIONS.map(option => option.value);
+
+// Maps a kuromoji (IPADIC) token to the word category we count it under.
+// Grammatical tokens such as pronouns, numbers, suffixes and auxiliary
+// verbs return null so they never reach the frequency table.
+export const categorizeToken = (token: Token): PosCategory | null => {
+  switch (token.pos) {
+    case '名詞':
+      if (['非自立', '代名詞', '数', '接尾', '特殊'].includes(token.pos_detail_1)) {
+        return null;
+      }
+      return token.pos_detail_1 === '形容動詞語幹' ? 'na-adjective' : 'noun';
+    case '動詞':
+      return token.pos_detail_1 === '自立' ? 'verb' : null;
+    case '形容詞':
+      return token.pos_detail_1 === '自立' ? 'i-adjective' : null;
+    case '副詞':
+      return 'adverb';
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,51 @@
+import type { FrequencyData } from '../frequency';
+import type { LemmaCount } from './count';
+import type { RankStrategy } from './types';
+
+export const RANK_OPTIONS: { value: RankStrategy; label: string; description: string }[] = [
+  { value: 'count', label: 'Most used', description: 'How often the word appears in this text' },
+  { value: 'tfidf', label: 'Most distinctive', description: 'Frequent here but uncommon in other Japanese text (TF-IDF)' },
+  { value: 'study', label: 'Best to study', description: 'Frequent here and useful in general, skipping the most basic words' },
+];
+
+export const RANK_STRATEGIES = RANK_OPTIONS.map(({ value }) => value);
+
+export const isRankStrategy = (value: unknown): value is RankStrategy =>
+  RANK_STRATEGIES.includes(value as RankStrategy);
+
+// Strategies other than count compare against the reference frequencies in
+// data/frequency
+export const needsFrequencyData = (strategy: RankStrategy) => strategy !== 'count';
+
+// The few hundred most frequent words are likely known already, and words
+// missing from the rank list are mostly rare, so both count for less than
+// the mid-frequency vocabulary a learner gets the most out of.
+const studyWeight = (rank: number | null) =>
+  rank === null ? 0.5 : Math.min(1, Math.log10(rank) / 3);
+
+const scoreFor = (
+  { lemma, count }: LemmaCount,
+  strategy: RankStrategy,
+  frequency: FrequencyData
+): number => {
+  switch (strategy) {
+    case 'tfidf':
+      return count * frequency.idf(lemma);
+    case 'study':
+      return Math.log2(1 + count) * studyWeight(frequency.rank(lemma));
+    default:
+      return count;
+  }
+};
+
+// Scores lemmas with the chosen strategy, highest first. Ties keep the
+// in-article count order.
+export function rankLemmas(
+  lemmas: LemmaCount[],
+  strategy: RankStrategy,
+  frequency: FrequencyData
+): (LemmaCount & { score: number })[] {
+  return lemmas
+    .map(lemma => ({ ...lemma, score: Math.round(scoreFor(lemma, strategy, frequency) * 100) / 100 }))
+    .sort((a, b) => b.score - a.score);
+}
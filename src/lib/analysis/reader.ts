@@ -0,0 +1,59 @@
+import * as wanakana from 'wanakana';
+import { frequencyBandFor, type FrequencyData } from '../frequency';
+import type { JlptLevels } from '../jlpt';
+import { isKanji, lemmaOf } from './count';
+import { categorizeToken } from './pos';
+import type { LocatedToken } from './sentences';
+import type { ReaderSegment, ReaderText } from './types';
+
+// Rebuilds the text from its tokens, keeping everything between them
+// (whitespace, line breaks) as plain segments
+export function buildReader(
+  text: string,
+  tokens: LocatedToken[],
+  frequency: FrequencyData,
+  jlptLevels: JlptLevels
+): ReaderText {
+  const segments: ReaderSegment[] = [];
+  const words: ReaderText['words'] = {};
+
+  const pushPlain = (plain: string) => {
+    if (!plain) return;
+    const last = segments[segments.length - 1];
+    if (last && !last.reading && !last.lemma) {
+      last.text += plain;
+    } else {
+      segments.push({ text: plain });
+    }
+  };
+
+  let cursor = 0;
+  tokens.forEach(token => {
+    // Tokens that couldn't be located in the text are left out
+    if (token.start < cursor || text.slice(token.start, token.end) !== token.surface_form) return;
+    pushPlain(text.slice(cursor, token.start));
+    cursor = token.end;
+
+    const lemma = categorizeToken(token) ? lemmaOf(token) : undefined;
+    const reading = isKanji(token.surface_form) && token.reading && token.reading !== '*'
+      ? wanakana.toHiragana(token.reading)
+      : undefined;
+    if (!lemma && !reading) {
+      pushPlain(token.surface_form);
+      return;
+    }
+
+    segments.push({ text: token.surface_form, reading, lemma });
+    if (lemma) {
+      words[lemma] ||= {
+        count: 0,
+        level: jlptLevels.estimate(lemma),
+        frequencyBand: frequencyBandFor(frequency.rank(lemma), frequency.size),
+      };
+      words[lemma].count += 1;
+    }
+  });
+  pushPlain(text.slice(cursor));
+
+  return { segments, words };
+}
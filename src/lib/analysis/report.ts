@@ -0,0 +1,90 @@
+import { JLPT_LEVELS } from '../jlpt/levels';
+import { isWordToken, lemmaOf } from './count';
+import { categorizeToken } from './pos';
+import type { LocatedToken, Sentence } from './sentences';
+import type { DifficultyLabel, LevelSummary, Script, TextReport } from './types';
+
+const SCRIPT_PATTERNS: [Exclude<Script, 'other'>, RegExp][] = [
+  ['kanji', /[一-龯々〆]/],
+  ['hiragana', /[ぁ-ゖゝゞ]/],
+  ['katakana', /[ァ-ヺー・ｦ-ﾟ]/],
+  ['latin', /[A-Za-zＡ-Ｚａ-ｚ0-9０-９]/],
+];
+
+// Upper bounds of each difficulty band's score
+const DIFFICULTY_BANDS: [number, DifficultyLabel][] = [
+  [25, 'beginner'],
+  [45, 'elementary'],
+  [65, 'intermediate'],
+  [80, 'upper-intermediate'],
+  [Infinity, 'advanced'],
+];
+
+// Words without a JLPT level count as a little harder than N1. Levels are
+// mostly estimated from kanji, and a word with any kanji outside the JLPT
+// set has none, so some everyday words land here too and push the score up:
+// read it as a relative measure between texts rather than a JLPT level.
+const UNLISTED_WEIGHT = JLPT_LEVELS.length + 0.5;
+
+const scriptOf = (char: string): Script =>
+  SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char))?.[0] || 'other';
+
+export function scriptMix(text: string): Record<Script, number> {
+  const counts: Record<Script, number> = { kanji: 0, hiragana: 0, katakana: 0, latin: 0, other: 0 };
+  let total = 0;
+  for (const char of text.replace(/\s/g, '')) {
+    counts[scriptOf(char)] += 1;
+    total += 1;
+  }
+  return Object.fromEntries(
+    Object.entries(counts).map(([script, count]) => [script, total > 0 ? count / total : 0])
+  ) as Record<Script, number>;
+}
+
+// Vocabulary level carries most of the weight (up to 60 points); kanji
+// density and sentence length add up to 20 each
+export function estimateDifficulty(
+  levels: LevelSummary,
+  kanjiDensity: number,
+  averageSentenceLength: number
+): TextReport['difficulty'] {
+  const weightedLevel = levels.total > 0
+    ? (JLPT_LEVELS.reduce((sum, level, index) => sum + levels.counts[level] * (index + 1), 0) +
+      levels.counts.unlisted * UNLISTED_WEIGHT) / levels.total
+    : 1;
+  const score = Math.round(
+    Math.min(60, (weightedLevel - 1) * 15) +
+    Math.min(20, kanjiDensity * 50) +
+    Math.min(20, averageSentenceLength / 3)
+  );
+  const label = DIFFICULTY_BANDS.find(([max]) => score < max)?.[1] || 'advanced';
+  return { score, label };
+}
+
+export function buildReport(
+  text: string,
+  tokens: LocatedToken[],
+  sentences: Sentence[],
+  levels: LevelSummary,
+  known: Set<string> | null
+): TextReport {
+  const words = tokens.filter(isWordToken);
+  const content = words.filter(token => categorizeToken(token));
+  const scripts = scriptMix(text);
+  const averageSentenceLength = sentences.length > 0
+    ? sentences.reduce((sum, { text: sentence }) => sum + sentence.length, 0) / sentences.length
+    : 0;
+
+  return {
+    tokens: words.length,
+    uniqueLemmas: new Set(words.map(lemmaOf)).size,
+    kanjiDensity: scripts.kanji,
+    averageSentenceLength,
+    sentences: sentences.length,
+    scripts,
+    knownCoverage: known && content.length > 0
+      ? content.filter(token => known.has(lemmaOf(token))).length / content.length
+      : null,
+    difficulty: estimateDifficulty(levels, scripts.kanji, averageSentenceLength),
+  };
+}
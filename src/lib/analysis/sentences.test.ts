@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { Token } from 'kuromoji';
+import { locateTokens, pickExamples, splitSentences } from './sentences';
+
+const tokens = (...surfaces: string[]) => surfaces.map(surface_form => ({ surface_form }) as Token);
+
+test('splits on terminators and line breaks, keeping closing quotes', () => {
+  const text = '「行くよ！」と言った。\n  見出し\n本当？';
+  const sentences = splitSentences(text);
+  assert.deepEqual(sentences.map(({ text }) => text), ['「行くよ！」', 'と言った。', '見出し', '本当？']);
+  for (const sentence of sentences) {
+    assert.equal(text.slice(sentence.start, sentence.end), sentence.text);
+  }
+});
+
+test('locates repeated tokens in order', () => {
+  const located = locateTokens('猫と猫。', tokens('猫', 'と', '猫', '。'));
+  assert.deepEqual(located.map(({ start, end }) => [start, end]), [[0, 1], [1, 2], [2, 3], [3, 4]]);
+});
+
+test('keeps the cursor when a token is not in the text', () => {
+  const located = locateTokens('犬が', tokens('犬', 'X', 'が'));
+  assert.deepEqual(located.map(({ start }) => start), [0, 1, 1]);
+});
+
+test('picks complete sentences of a useful length, highlighting the word', () => {
+  const text = '猫\n猫が好きです。\n毎朝、猫に餌をあげてから駅まで歩いて仕事に行きます。';
+  const sentences = splitSentences(text);
+  const occurrences = Array.from(text.matchAll(/猫/g), ({ index = 0 }) => ({ start: index, end: index + 1 }));
+
+  const examples = pickExamples(occurrences, sentences, 2);
+  assert.deepEqual(examples, [
+    { text: '毎朝、猫に餌をあげてから駅まで歩いて仕事に行きます。', highlights: [[3, 4]] },
+    { text: '猫が好きです。', highlights: [[0, 1]] },
+  ]);
+});
+
+test('skips repeated and overlong sentences', () => {
+  const long = `${'長'.repeat(130)}猫。`;
+  const text = `猫です。猫です。${long}`;
+  const occurrences = [0, 4, 8 + 130].map(start => ({ start, end: start + 1 }));
+  const examples = pickExamples(occurrences, splitSentences(text));
+  assert.deepEqual(examples.map(({ text }) => text), ['猫です。']);
+});
@@ -0,0 +1,99 @@
+import type { Token } from 'kuromoji';
+import type { ExampleSentence } from './types';
+
+export interface Sentence {
+  text: string;
+  // Offsets into the analyzed text
+  start: number;
+  end: number;
+}
+
+export interface LocatedToken extends Token {
+  start: number;
+  end: number;
+}
+
+// A sentence runs up to a terminator (plus any closing brackets or quotes
+// after it) or a line break
+const SENTENCE_PATTERN = /[^。！？!?\n]+(?:[。！？!?]+[」』）)"]*)?|[。！？!?]+/g;
+
+export function splitSentences(text: string): Sentence[] {
+  const sentences: Sentence[] = [];
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    const raw = match[0];
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+    const start = (match.index || 0) + leading;
+    sentences.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  return sentences;
+}
+
+// kuromoji's word_position drifts across sentence boundaries, so offsets are
+// recovered by finding each surface form in order
+export function locateTokens(text: string, tokens: Token[]): LocatedToken[] {
+  let cursor = 0;
+  return tokens.map(token => {
+    const found = text.indexOf(token.surface_form, cursor);
+    const start = found === -1 ? cursor : found;
+    const end = start + token.surface_form.length;
+    cursor = found === -1 ? cursor : end;
+    return { ...token, start, end };
+  });
+}
+
+const sentenceAt = (sentences: Sentence[], offset: number) => {
+  let low = 0;
+  let high = sentences.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (offset < sentences[mid].start) {
+      high = mid - 1;
+    } else if (offset >= sentences[mid].end) {
+      low = mid + 1;
+    } else {
+      return mid;
+    }
+  }
+  return -1;
+};
+
+// Sentences of roughly this many characters make the best flashcard examples
+const IDEAL_LENGTH = 30;
+const MAX_LENGTH = 120;
+
+const exampleScore = (sentence: Sentence) => {
+  const length = sentence.text.length;
+  if (length > MAX_LENGTH) return -1;
+  // Prefer complete sentences over headlines and list fragments
+  const complete = /[。！？!?」』]$/.test(sentence.text) ? 0 : 20;
+  return Math.abs(length - IDEAL_LENGTH) + complete;
+};
+
+// Picks up to `max` distinct sentences containing the given occurrences,
+// with each occurrence's position marked relative to the sentence
+export function pickExamples(
+  occurrences: { start: number; end: number }[],
+  sentences: Sentence[],
+  max = 3
+): ExampleSentence[] {
+  const bySentence = new Map<number, [number, number][]>();
+  for (const { start, end } of occurrences) {
+    const index = sentenceAt(sentences, start);
+    if (index === -1) continue;
+    const sentence = sentences[index];
+    const highlights = bySentence.get(index) || [];
+    highlights.push([start - sentence.start, Math.min(end, sentence.end) - sentence.start]);
+    bySentence.set(index, highlights);
+  }
+
+  const seen = new Set<string>();
+  return Array.from(bySentence.entries())
+    .map(([index, highlights]) => ({ sentence: sentences[index], highlights }))
+    .filter(({ sentence }) => exampleScore(sentence) >= 0)
+    .sort((a, b) => exampleScore(a.sentence) - exampleScore(b.sentence))
+    .filter(({ sentence }) => !seen.has(sentence.text) && seen.add(sentence.text))
+    .slice(0, max)
+    .map(({ sentence, highlights }) => ({ text: sentence.text, highlights }));
+}
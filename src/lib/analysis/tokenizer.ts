@@ -0,0 +1,33 @@
+import * as kuromoji from 'kuromoji';
+import type { Tokenizer } from 'kuromoji';
+import path from 'path';
+
+// The IPADIC files kuromoji builds its tokenizer from, as shipped in the
+// kuromoji package
+export const DICT_PATH = process.env.KUROMOJI_DICT_PATH
+  || path.join(process.cwd(), 'public', 'dict');
+
+let tokenizer: Promise<Tokenizer> | null = null;
+
+// Building the tokenizer loads ~20 MB of dictionary data, so it is done once
+// per process and shared by every request.
+export function getTokenizer(): Promise<Tokenizer> {
+  if (!tokenizer) {
+    tokenizer = new Promise<Tokenizer>((resolve, reject) => {
+      kuromoji.builder({ dicPath: DICT_PATH })
+        .build((err: Error | null, built: Tokenizer) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve(built);
+          }
+        });
+    });
+    // Let a later request retry if the dictionary failed to load
+    tokenizer.catch(err => {
+      console.error('Tokenizer error:', err);
+      tokenizer = null;
+    });
+  }
+  return tokenizer;
+}
@@ -0,0 +1,200 @@
+import type { DictionarySense, LanguageSource } from '../dictionary/types';
+import type { FrequencyBand } from '../frequency/bands';
+import type { JlptLevel } from '../jlpt/levels';
+import type { KanjiCount } from '../kanji/types';
+
+export type PosCategory = 'noun' | 'verb' | 'i-adjective' | 'na-adjective' | 'adverb';
+
+// Words are split into kanji vocabulary, katakana loanwords and proper nouns
+export type WordGroup = 'vocabulary' | 'loanword' | 'name';
+
+export type RankStrategy = 'count' | 'tfidf' | 'study';
+
+export type LevelFilter = JlptLevel | 'unlisted';
+
+export interface ExampleSentence {
+  text: string;
+  // [start, end) character ranges of the word within the text
+  highlights: [number, number][];
+}
+
+export interface WordResult {
+  word: string;
+  count: number;
+  // Ranking score under the strategy the analysis used
+  score: number;
+  reading: string;
+  extraReadings: number;
+  definition: string;
+  partOfSpeech: string;
+  forms: string[];
+  kanji: string[];
+  readings: string[];
+  senses: DictionarySense[];
+  jlpt: string[];
+  // From the bundled JLPT lists, falling back to the dictionary's tags
+  level: JlptLevel | null;
+  // From the reference rank list; null when none has been built
+  frequencyBand: FrequencyBand | null;
+  common: boolean;
+  examples: ExampleSentence[];
+  // Missing from analyses saved before words were grouped; treat as vocabulary
+  group?: WordGroup;
+  // Source word of a loanword, when the dictionary gives one
+  origin?: LanguageSource;
+}
+
+export interface ArticleInfo {
+  title: string;
+  byline: string;
+  publishedAt: string;
+}
+
+export interface AnalyzeOptions {
+  pos?: PosCategory[];
+  // Which groups of words to rank; defaults to all of them
+  groups?: WordGroup[];
+  // Number of defined words to return
+  limit?: number;
+  // Number of most frequent lemmas to look up; some have no definition
+  candidates?: number;
+  // Ignore words that appear fewer times than this
+  minCount?: number;
+  // Lemmas to leave out of the ranking, e.g. words the learner already knows
+  exclude?: string[];
+  // How lemmas are ordered before lookup; defaults to raw count
+  rank?: RankStrategy;
+  // Only return words at these JLPT levels; 'unlisted' keeps words without one
+  levels?: LevelFilter[];
+  // Lemmas the learner knows, for the report's coverage figure. Unlike
+  // exclude, they stay in the ranking.
+  known?: string[];
+}
+
+export type AnalyzeStage = 'fetching' | 'tokenizing' | 'lookup';
+
+export interface AnalyzeProgress {
+  stage: AnalyzeStage;
+  // Dictionary lookups settled so far, during the lookup stage
+  done?: number;
+  total?: number;
+}
+
+export interface AnalyzeHooks {
+  // Aborts the analysis, including lookups not yet started
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalyzeProgress) => void;
+  // Called with each result as soon as it and every higher-ranked candidate
+  // are resolved, so words arrive in rank order
+  onWord?: (word: WordResult) => void;
+}
+
+// Word occurrences in the whole text by JLPT level, before any filters. Only
+// words with kanji are counted, as levels are mostly estimated from kanji.
+export interface LevelSummary {
+  counts: Record<LevelFilter, number>;
+  total: number;
+}
+
+// A run of the analyzed text for the reader view. Plain text between words
+// is merged into a single segment.
+export interface ReaderSegment {
+  text: string;
+  // Hiragana reading of segments that contain kanji
+  reading?: string;
+  // Dictionary form of content words, so they can be looked up
+  lemma?: string;
+}
+
+export interface ReaderText {
+  segments: ReaderSegment[];
+  // Every lemma in the segments, with what the analysis knows about it
+  words: Record<string, { count: number; level: JlptLevel | null; frequencyBand: FrequencyBand | null }>;
+}
+
+export type Script = 'kanji' | 'hiragana' | 'katakana' | 'latin' | 'other';
+
+export type DifficultyLabel = 'beginner' | 'elementary' | 'intermediate' | 'upper-intermediate' | 'advanced';
+
+export interface TextReport {
+  // Word tokens, without punctuation and symbols
+  tokens: number;
+  uniqueLemmas: number;
+  // Share of characters (ignoring whitespace) that are kanji
+  kanjiDensity: number;
+  // In characters
+  averageSentenceLength: number;
+  sentences: number;
+  // Share of characters in each script, ignoring whitespace
+  scripts: Record<Script, number>;
+  // Share of content-word occurrences the learner knows; null without a
+  // known-words list
+  knownCoverage: number | null;
+  // 0 (easiest) to 100, from vocabulary level, kanji density and sentence length
+  difficulty: { score: number; label: DifficultyLabel };
+}
+
+export interface AnalysisResult {
+  article: ArticleInfo;
+  words: WordResult[];
+  // Candidates the dictionary had no entry for, or whose lookup failed,
+  // ranked like words and with an empty definition
+  noDefinition: WordResult[];
+  levels: LevelSummary;
+  reader: ReaderText;
+  // Most frequent kanji across the whole text
+  kanji: KanjiCount[];
+  report: TextReport;
+}
+
+export interface CorpusDocument {
+  // The URL the text came from
+  source: string;
+  article: ArticleInfo;
+  text: string;
+}
+
+export interface CorpusWord {
+  word: string;
+  reading: string;
+  definition: string;
+  count: number;
+  // Occurrences in each article, in request order
+  counts: number[];
+  // Number of articles the word appears in
+  articles: number;
+}
+
+export interface CorpusArticle {
+  source: string;
+  title: string;
+  // Running words, grammatical ones included, that coverage is measured against
+  tokens: number;
+  distinct: number;
+  // Share of the article's running words that are in the set's word list
+  coverage: number;
+  // Most frequent words that appear in no other article
+  unique: string[];
+}
+
+export interface CoveragePoint {
+  words: number;
+  // Share of running words across all articles covered by the top `words`
+  coverage: number;
+}
+
+export interface CorpusResult {
+  articles: CorpusArticle[];
+  // Merged frequency across the set, most frequent first
+  words: CorpusWord[];
+  // Words found in every article, most frequent first
+  shared: string[];
+  coverageCurve: CoveragePoint[];
+}
+
+// Newline-delimited events of a streamed /api/analyze response
+export type AnalyzeEvent =
+  | ({ type: 'progress' } & AnalyzeProgress)
+  | { type: 'word'; word: WordResult }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; error: string; code: string; upstreamStatus?: number };
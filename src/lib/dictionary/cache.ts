@@ -0,0 +1,86 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface Cache<V> {
+  get: (key: string) => Promise<V | undefined>;
+  set: (key: string, value: V) => Promise<void>;
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used key at the front.
+export function createLruCache<V>(maxSize: number): Cache<V> {
+  const entries = new Map<string, V>();
+
+  return {
+    async get(key) {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key) as V;
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+  };
+}
+
+interface FileCacheRecord<V> {
+  storedAt: number;
+  value: V;
+}
+
+// One JSON file per key, named by hash so any word is a safe file name
+export function createFileCache<V>(dir: string, ttlMs: number): Cache<V> {
+  const fileFor = (key: string) =>
+    path.join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+  return {
+    async get(key) {
+      try {
+        const record = JSON.parse(await fs.readFile(fileFor(key), 'utf8')) as FileCacheRecord<V>;
+        if (Date.now() - record.storedAt > ttlMs) return undefined;
+        return record.value;
+      } catch {
+        return undefined;
+      }
+    },
+
+    async set(key, value) {
+      const record: FileCacheRecord<V> = { storedAt: Date.now(), value };
+      try {
+        await fs.mkdir(dir, { recursive: true });
+        await fs.writeFile(fileFor(key), JSON.stringify(record));
+      } catch (err) {
+        console.error('Dictionary cache write failed:', err);
+      }
+    },
+  };
+}
+
+// Reads fall through the layers in order; a hit in a later layer is copied
+// back into the earlier ones.
+export function layerCaches<V>(layers: Cache<V>[]): Cache<V> {
+  return {
+    async get(key) {
+      for (const [index, layer] of layers.entries()) {
+        const value = await layer.get(key);
+        if (value !== undefined) {
+          await Promise.all(layers.slice(0, index).map(earlier => earlier.set(key, value)));
+          return value;
+        }
+      }
+      return undefined;
+    },
+
+    async set(key, value) {
+      await Promise.all(layers.map(layer => layer.set(key, value)));
+    },
+  };
+}
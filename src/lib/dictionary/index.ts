@@ -0,0 +1,163 @@
+import { mapWithConcurrency } from '../concurrency';
+import { createFileCache, createLruCache, layerCaches, type Cache } from './cache';
+import { jishoProvider } from './jisho';
+import { createLocalProvider } from './local';
+import type { DictionaryEntry, DictionaryLookup, DictionaryProvider } from './types';
+
+export type {
+  DictionaryEntry,
+  DictionaryLookup,
+  DictionaryProvider,
+  DictionarySense,
+  LanguageSource,
+} from './types';
+
+const PROVIDER_FACTORIES: Record<string, () => DictionaryProvider> = {
+  local: () => createLocalProvider(),
+  jisho: () => jishoProvider,
+};
+
+// Providers are tried in order until one returns an entry. Configure with
+// DICTIONARY_PROVIDERS, e.g. "local" for fully offline or "local,jisho".
+const DEFAULT_PROVIDERS = 'local,jisho';
+
+export function createProviderChain(names: string[]): DictionaryProvider {
+  const providers = names.map(name => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      throw new Error(`Unknown dictionary provider: ${name}`);
+    }
+    return factory();
+  });
+
+  return {
+    name: providers.map(provider => provider.name).join(','),
+
+    async lookup(word) {
+      let lastError: unknown = null;
+      for (const provider of providers) {
+        try {
+          const entry = await provider.lookup(word);
+          if (entry) return entry;
+        } catch (err) {
+          console.error(`Dictionary provider ${provider.name} failed:`, err);
+          lastError = err;
+        }
+      }
+      if (lastError) throw lastError;
+      return null;
+    },
+  };
+}
+
+let defaultProvider: DictionaryProvider | null = null;
+
+export function getDictionaryProvider(): DictionaryProvider {
+  if (!defaultProvider) {
+    const names = (process.env.DICTIONARY_PROVIDERS || DEFAULT_PROVIDERS)
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean);
+    defaultProvider = createProviderChain(names);
+  }
+  return defaultProvider;
+}
+
+// Lookups are cached in memory and, when DICTIONARY_CACHE_DIR is set, on disk.
+// A null entry ("not in any dictionary") is cached too; provider errors are not.
+let entryCache: Cache<DictionaryEntry | null> | null = null;
+
+const getEntryCache = () => {
+  if (!entryCache) {
+    const layers: Cache<DictionaryEntry | null>[] = [
+      createLruCache(Number(process.env.DICTIONARY_CACHE_SIZE) || 5000),
+    ];
+    if (process.env.DICTIONARY_CACHE_DIR) {
+      const ttlHours = Number(process.env.DICTIONARY_CACHE_TTL_HOURS) || 24 * 7;
+      layers.push(createFileCache(process.env.DICTIONARY_CACHE_DIR, ttlHours * 60 * 60 * 1000));
+    }
+    entryCache = layerCaches(layers);
+  }
+  return entryCache;
+};
+
+export async function lookupWord(word: string): Promise<DictionaryEntry | null> {
+  const cache = getEntryCache();
+  const cached = await cache.get(word);
+  if (cached !== undefined) return cached;
+
+  const entry = await getDictionaryProvider().lookup(word);
+  await cache.set(word, entry);
+  return entry;
+}
+
+const DEFAULT_CONCURRENCY = 5;
+
+export interface LookupWordsOptions {
+  // Stops starting new lookups once aborted; rejects with the abort reason
+  signal?: AbortSignal;
+  // Checked just before each lookup starts; skipped words settle as null
+  // without a request
+  skip?: (index: number) => boolean;
+  // Called as each lookup settles, in completion order
+  onResult?: (index: number, entry: DictionaryEntry | null | Error) => void;
+}
+
+// Resolves many words at once. A failed lookup yields an Error in that slot
+// rather than rejecting the whole batch.
+export async function lookupWords(
+  words: string[],
+  { signal, skip, onResult }: LookupWordsOptions = {}
+): Promise<(DictionaryEntry | null | Error)[]> {
+  const concurrency = Number(process.env.DICTIONARY_CONCURRENCY) || DEFAULT_CONCURRENCY;
+  return mapWithConcurrency(words, concurrency, async (word, index) => {
+    signal?.throwIfAborted();
+    const entry = skip?.(index)
+      ? null
+      : await lookupWord(word).catch(err => (err instanceof Error ? err : new Error(String(err))));
+    onResult?.(index, entry);
+    return entry;
+  });
+}
+
+export function summarizeEntry(entry: DictionaryEntry | null): DictionaryLookup {
+  if (!entry || entry.senses.length === 0) {
+    return { definition: 'No definition found' };
+  }
+
+  const readings = entry.readings;
+  const mainReading = readings[0];
+  const extraReadings = readings.length > 1 ? readings.length - 1 : 0;
+
+  const firstSense = entry.senses[0];
+  let partOfSpeech = firstSense.partsOfSpeech[0] || 'noun';
+  partOfSpeech = partOfSpeech.split(' ')[0].toLowerCase();
+
+  if (partOfSpeech === 'verb') {
+    const verbType = firstSense.partsOfSpeech.find(
+      (pos: string) => pos.includes('ichidan') || pos.includes('godan')
+    );
+    if (verbType) {
+      partOfSpeech = verbType.includes('ichidan') ? 'ichidan verb' : 'godan verb';
+    }
+  }
+
+  const jlpt = (entry.jlpt || [])
+    .map(level => level.replace(/^jlpt-/i, '').toUpperCase())
+    .sort((a, b) => b.localeCompare(a));
+
+  const origin = entry.senses.flatMap(sense => sense.sources || []).find(source => source.word);
+
+  return {
+    definition: firstSense.definitions.join('; ') || 'No definition found',
+    reading: mainReading,
+    extraReadings,
+    partOfSpeech,
+    kanji: entry.kanji,
+    readings,
+    senses: entry.senses,
+    jlpt,
+    common: entry.common,
+    ...(origin && { origin }),
+  };
+}
@@ -0,0 +1,47 @@
+import type { DictionaryEntry, DictionaryProvider } from './types';
+
+interface JishoResponse {
+  is_common?: boolean;
+  jlpt?: string[];
+  japanese: {
+    word?: string;
+    reading?: string;
+  }[];
+  senses: {
+    english_definitions: string[];
+    parts_of_speech: string[];
+    tags?: string[];
+    source?: { language: string; word: string }[];
+  }[];
+}
+
+export const jishoProvider: DictionaryProvider = {
+  name: 'jisho',
+
+  async lookup(word) {
+    const response = await fetch(
+      `https://jisho.org/api/v1/search/words?keyword=${encodeURIComponent(word)}`
+    );
+    if (!response.ok) {
+      throw new Error(`jisho.org responded with ${response.status}`);
+    }
+
+    const data = await response.json();
+    const firstResult = data.data?.[0] as JishoResponse | undefined;
+    if (!firstResult) return null;
+
+    const entry: DictionaryEntry = {
+      kanji: firstResult.japanese.map(j => j.word).filter((w): w is string => Boolean(w)),
+      readings: firstResult.japanese.map(j => j.reading).filter((r): r is string => Boolean(r)),
+      senses: firstResult.senses.map(sense => ({
+        definitions: sense.english_definitions,
+        partsOfSpeech: sense.parts_of_speech,
+        tags: sense.tags || [],
+        sources: sense.source || [],
+      })),
+      common: Boolean(firstResult.is_common),
+      jlpt: firstResult.jlpt || [],
+    };
+    return entry;
+  },
+};
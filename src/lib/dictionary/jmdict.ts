@@ -0,0 +1,206 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createGunzip } from 'zlib';
+import type { Readable } from 'stream';
+import type { DictionaryEntry, DictionarySense, LanguageSource } from './types';
+
+// Priority markers JMdict uses for the "common word" set shown by most dictionaries
+const COMMON_PRIORITIES = new Set(['news1', 'ichi1', 'spec1', 'spec2', 'gai1']);
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+// JMdict names source languages by ISO 639-2 code; unlisted codes are kept as is
+const LANGUAGE_NAMES: Record<string, string> = {
+  eng: 'English',
+  ger: 'German',
+  fre: 'French',
+  dut: 'Dutch',
+  por: 'Portuguese',
+  ita: 'Italian',
+  spa: 'Spanish',
+  rus: 'Russian',
+  lat: 'Latin',
+  gre: 'Greek',
+  chi: 'Chinese',
+  kor: 'Korean',
+};
+
+const languageSource = (code: string, word: string): LanguageSource => ({
+  language: LANGUAGE_NAMES[code] || code,
+  word,
+});
+
+const decodeXml = (text: string) =>
+  text.replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name]);
+
+const matchAll = (block: string, pattern: RegExp) =>
+  Array.from(block.matchAll(pattern), match => match[1]);
+
+// JMdict only repeats a part of speech when it changes, so senses without
+// their own tags inherit the previous sense's tags
+const inheritPartsOfSpeech = (senses: DictionarySense[]) => {
+  let previous: string[] = [];
+  for (const sense of senses) {
+    if (sense.partsOfSpeech.length === 0) {
+      sense.partsOfSpeech = previous;
+    }
+    previous = sense.partsOfSpeech;
+  }
+  return senses;
+};
+
+const parseXmlEntry = (block: string, entities: Map<string, string>): DictionaryEntry | null => {
+  const kanjiElements = matchAll(block, /<k_ele>([\s\S]*?)<\/k_ele>/g);
+  const readingElements = matchAll(block, /<r_ele>([\s\S]*?)<\/r_ele>/g);
+
+  const kanji = kanjiElements.flatMap(el => matchAll(el, /<keb>([\s\S]*?)<\/keb>/g).map(decodeXml));
+  const readings = readingElements.flatMap(el => matchAll(el, /<reb>([\s\S]*?)<\/reb>/g).map(decodeXml));
+  const priorities = matchAll(block, /<(?:ke|re)_pri>([\s\S]*?)<\/(?:ke|re)_pri>/g);
+
+  const senses = matchAll(block, /<sense>([\s\S]*?)<\/sense>/g).map(sense => ({
+    partsOfSpeech: matchAll(sense, /<pos>&([^;]+);<\/pos>/g).map(name => entities.get(name) || name),
+    definitions: Array.from(sense.matchAll(/<gloss([^>]*)>([\s\S]*?)<\/gloss>/g))
+      .filter(([, attributes]) => !attributes.includes('xml:lang') || attributes.includes('xml:lang="eng"'))
+      .map(([, , text]) => decodeXml(text)),
+    // The language defaults to English when lsource has no xml:lang
+    sources: Array.from(sense.matchAll(/<lsource([^>]*?)(?:\/>|>([\s\S]*?)<\/lsource>)/g))
+      .map(([, attributes, word = '']) =>
+        languageSource(/xml:lang="([^"]+)"/.exec(attributes)?.[1] || 'eng', decodeXml(word))),
+  }));
+
+  const englishSenses = inheritPartsOfSpeech(senses).filter(sense => sense.definitions.length > 0);
+  if (readings.length === 0 || englishSenses.length === 0) return null;
+
+  return {
+    kanji,
+    readings,
+    senses: englishSenses,
+    common: priorities.some(priority => COMMON_PRIORITIES.has(priority)),
+    jlpt: [],
+  };
+};
+
+// Splits a JMdict XML stream into <entry> blocks, along with the entities
+// the DTD declares
+async function* jmdictXmlEntries(input: Readable): AsyncGenerator<{ block: string; entities: Map<string, string> }> {
+  const entities = new Map<string, string>();
+  let buffer = '';
+  let inHeader = true;
+
+  input.setEncoding('utf8');
+  for await (const chunk of input) {
+    buffer += chunk;
+
+    if (inHeader) {
+      const firstEntry = buffer.indexOf('<entry>');
+      if (firstEntry === -1) continue;
+      // The DTD declares every part-of-speech code as an entity with its description
+      for (const [, name, description] of buffer.slice(0, firstEntry).matchAll(/<!ENTITY\s+(\S+)\s+"([^"]*)">/g)) {
+        entities.set(name, description);
+      }
+      buffer = buffer.slice(firstEntry);
+      inHeader = false;
+    }
+
+    let end = buffer.indexOf('</entry>');
+    while (end !== -1) {
+      const start = buffer.indexOf('<entry>');
+      yield { block: buffer.slice(start, end), entities };
+      buffer = buffer.slice(end + '</entry>'.length);
+      end = buffer.indexOf('</entry>');
+    }
+  }
+}
+
+export async function* parseJmdictXml(input: Readable): AsyncGenerator<DictionaryEntry> {
+  for await (const { block, entities } of jmdictXmlEntries(input)) {
+    const entry = parseXmlEntry(block, entities);
+    if (entry) yield entry;
+  }
+}
+
+export interface PrioritizedForm {
+  written: string;
+  priorities: string[];
+}
+
+// The written forms of each entry with their own priority markers. Readings
+// only count for entries written in kana alone: the tokenizer reports other
+// words in their kanji form.
+export async function* parseJmdictPriorities(input: Readable): AsyncGenerator<PrioritizedForm> {
+  for await (const { block } of jmdictXmlEntries(input)) {
+    const kanjiElements = matchAll(block, /<k_ele>([\s\S]*?)<\/k_ele>/g);
+    const elements = kanjiElements.length > 0 ? kanjiElements : matchAll(block, /<r_ele>([\s\S]*?)<\/r_ele>/g);
+    for (const element of elements) {
+      const [written] = matchAll(element, /<(?:keb|reb)>([\s\S]*?)<\/(?:keb|reb)>/g);
+      if (written) {
+        yield {
+          written: decodeXml(written),
+          priorities: matchAll(element, /<(?:ke|re)_pri>([\s\S]*?)<\/(?:ke|re)_pri>/g),
+        };
+      }
+    }
+  }
+}
+
+interface SimplifiedWord {
+  kanji: { text: string; common: boolean }[];
+  kana: { text: string; common: boolean }[];
+  sense: {
+    partOfSpeech: string[];
+    gloss: { lang: string; text: string }[];
+    languageSource?: { lang: string; text: string | null }[];
+  }[];
+}
+
+// Parses the JSON distribution of JMdict from the jmdict-simplified project
+export function* parseJmdictJson(text: string): Generator<DictionaryEntry> {
+  const data = JSON.parse(text) as { tags?: Record<string, string>; words: SimplifiedWord[] };
+  const tags = data.tags || {};
+
+  for (const word of data.words) {
+    const senses = inheritPartsOfSpeech(word.sense.map(sense => ({
+      partsOfSpeech: sense.partOfSpeech.map(tag => tags[tag] || tag),
+      definitions: sense.gloss.filter(gloss => gloss.lang === 'eng').map(gloss => gloss.text),
+      sources: (sense.languageSource || []).map(source => languageSource(source.lang, source.text || '')),
+    }))).filter(sense => sense.definitions.length > 0);
+
+    if (word.kana.length === 0 || senses.length === 0) continue;
+
+    yield {
+      kanji: word.kanji.map(k => k.text),
+      readings: word.kana.map(k => k.text),
+      senses,
+      common: [...word.kanji, ...word.kana].some(form => form.common),
+      jlpt: [],
+    };
+  }
+}
+
+// Reads JMdict_e (.xml) or jmdict-simplified (.json), optionally gzipped
+export async function readJmdictFile(file: string): Promise<AsyncIterable<DictionaryEntry> | Iterable<DictionaryEntry>> {
+  const gzipped = file.endsWith('.gz');
+  const name = gzipped ? file.slice(0, -3) : file;
+
+  if (name.endsWith('.json')) {
+    let text: string;
+    if (gzipped) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of createReadStream(file).pipe(createGunzip())) {
+        chunks.push(chunk as Buffer);
+      }
+      text = Buffer.concat(chunks).toString('utf8');
+    } else {
+      text = await fs.readFile(file, 'utf8');
+    }
+    return parseJmdictJson(text);
+  }
+
+  const stream = createReadStream(file);
+  return parseJmdictXml(gzipped ? stream.pipe(createGunzip()) : stream);
+}
@@ -0,0 +1,17 @@
+import { DEFAULT_STORE_DIR, openStore } from './store';
+import type { DictionaryProvider } from './types';
+
+export function createLocalProvider(
+  dir = process.env.DICTIONARY_PATH || DEFAULT_STORE_DIR
+): DictionaryProvider {
+  const store = openStore(dir);
+
+  return {
+    name: 'local',
+
+    async lookup(word) {
+      const [entry] = await store.lookup(word);
+      return entry || null;
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { DictionaryEntry } from './types';
+
+// Entries are indexed under every kanji and kana form and split across
+// shard files, so a lookup only has to read the one shard its key hashes to.
+export const DEFAULT_STORE_DIR = path.join(process.cwd(), 'data', 'jmdict');
+const SHARD_COUNT = 64;
+
+export interface StoreMeta {
+  source: string;
+  importedAt: string;
+  entryCount: number;
+  shardCount: number;
+}
+
+type Shard = Record<string, DictionaryEntry[]>;
+
+const shardFor = (key: string, shardCount: number): number => {
+  let hash = 0;
+  for (const char of key) {
+    hash = (hash * 31 + (char.codePointAt(0) || 0)) >>> 0;
+  }
+  return hash % shardCount;
+};
+
+const shardFile = (dir: string, shard: number) =>
+  path.join(dir, `shard-${shard.toString().padStart(2, '0')}.json`);
+
+// Headword matches rank above kana-only matches, and common words above rare ones
+const rankFor = (key: string) => (a: DictionaryEntry, b: DictionaryEntry) => {
+  const aKanji = a.kanji.includes(key) ? 0 : 1;
+  const bKanji = b.kanji.includes(key) ? 0 : 1;
+  if (aKanji !== bKanji) return aKanji - bKanji;
+  return Number(b.common) - Number(a.common);
+};
+
+export async function writeStore(
+  entries: AsyncIterable<DictionaryEntry> | Iterable<DictionaryEntry>,
+  dir: string,
+  source: string
+): Promise<StoreMeta> {
+  const shards: Shard[] = Array.from({ length: SHARD_COUNT }, () => ({}));
+  let entryCount = 0;
+
+  for await (const entry of entries) {
+    entryCount += 1;
+    for (const key of new Set([...entry.kanji, ...entry.readings])) {
+      const shard = shards[shardFor(key, SHARD_COUNT)];
+      (shard[key] ||= []).push(entry);
+    }
+  }
+
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(dir, { recursive: true });
+
+  for (const [index, shard] of shards.entries()) {
+    for (const [key, list] of Object.entries(shard)) {
+      list.sort(rankFor(key));
+    }
+    await fs.writeFile(shardFile(dir, index), JSON.stringify(shard));
+  }
+
+  const meta: StoreMeta = {
+    source,
+    importedAt: new Date().toISOString(),
+    entryCount,
+    shardCount: SHARD_COUNT,
+  };
+  await fs.writeFile(path.join(dir, 'meta.json'), JSON.stringify(meta, null, 2));
+  return meta;
+}
+
+export function openStore(dir: string) {
+  let meta: Promise<StoreMeta | null> | null = null;
+  const shards = new Map<number, Promise<Shard>>();
+
+  const readMeta = () => {
+    meta ||= fs.readFile(path.join(dir, 'meta.json'), 'utf8')
+      .then(text => JSON.parse(text) as StoreMeta)
+      .catch(() => null);
+    return meta;
+  };
+
+  const readShard = (index: number) => {
+    let shard = shards.get(index);
+    if (!shard) {
+      shard = fs.readFile(shardFile(dir, index), 'utf8').then(text => JSON.parse(text) as Shard);
+      shards.set(index, shard);
+    }
+    return shard;
+  };
+
+  return {
+    meta: readMeta,
+
+    async lookup(key: string): Promise<DictionaryEntry[]> {
+      const storeMeta = await readMeta();
+      if (!storeMeta) return [];
+      const shard = await readShard(shardFor(key, storeMeta.shardCount));
+      return shard[key] || [];
+    },
+  };
+}
@@ -0,0 +1,43 @@
+// The foreign word a loanword sense comes from
+export interface LanguageSource {
+  // English name of the language, e.g. "German"
+  language: string;
+  word: string;
+}
+
+export interface DictionarySense {
+  definitions: string[];
+  partsOfSpeech: string[];
+  tags?: string[];
+  sources?: LanguageSource[];
+}
+
+export interface DictionaryEntry {
+  kanji: string[];
+  readings: string[];
+  senses: DictionarySense[];
+  common: boolean;
+  // JLPT levels as reported by the source, e.g. "jlpt-n3"
+  jlpt: string[];
+}
+
+export interface DictionaryProvider {
+  readonly name: string;
+  lookup: (word: string) => Promise<DictionaryEntry | null>;
+}
+
+// The shape returned by POST /api/dictionary
+export interface DictionaryLookup {
+  definition: string;
+  reading?: string;
+  extraReadings?: number;
+  partOfSpeech?: string;
+  kanji?: string[];
+  readings?: string[];
+  senses?: DictionarySense[];
+  // Normalized to "N5".."N1", easiest first
+  jlpt?: string[];
+  common?: boolean;
+  // Source word of a loanword, when the dictionary gives one
+  origin?: LanguageSource;
+}
@@ -0,0 +1,286 @@
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import type { NoteField } from './fields';
+
+// Builds an Anki package: a zip holding a schema-11 SQLite collection
+// ("collection.anki2") and a media manifest. The layout follows what Anki
+// 2.1 itself writes for legacy exports, which every Anki client can import.
+
+export interface ApkgNote {
+  // Values in the same order as the note type's fields
+  fields: string[];
+  tags?: string[];
+}
+
+export interface ApkgOptions {
+  deckName: string;
+  modelName: string;
+  fields: NoteField[];
+  notes: ApkgNote[];
+}
+
+const SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null,
+  scm integer not null, ver integer not null, dty integer not null,
+  usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null,
+  mod integer not null, usn integer not null, tags text not null,
+  flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null,
+  ord integer not null, mod integer not null, usn integer not null,
+  type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null,
+  odid integer not null, flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null,
+  ease integer not null, ivl integer not null, lastIvl integer not null,
+  factor integer not null, time integer not null, type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = `.card {
+  font-family: "Hiragino Kaku Gothic Pro", "Noto Sans JP", Meiryo, sans-serif;
+  font-size: 20px;
+  text-align: center;
+  color: #0D0C22;
+  background-color: white;
+}
+.word { font-size: 40px; }
+.field { margin-top: 8px; }
+.field-reading, .field-partOfSpeech { color: #787878; font-size: 16px; }
+.field-sourceUrl { font-size: 12px; }`;
+
+const loadSql = () => initSqlJs({
+  locateFile: file => path.join(process.cwd(), 'node_modules', 'sql.js', 'dist', file),
+});
+
+const sha1 = (text: string) => createHash('sha1').update(text).digest();
+
+// Anki ids are millisecond timestamps; hashing the name keeps the deck and
+// note type ids stable so re-importing updates instead of duplicating
+const stableId = (name: string) => 1_000_000_000_000 + (sha1(name).readUInt32BE(0) % 1_000_000_000);
+
+const stripHtml = (text: string) => text.replace(/<[^>]*>/g, '');
+
+// Checksum of the first field, used by Anki for duplicate detection
+const fieldChecksum = (text: string) => sha1(stripHtml(text)).readUInt32BE(0);
+
+const noteGuid = (deckName: string, firstField: string) =>
+  sha1(`${deckName}\u001f${firstField}`).toString('base64').slice(0, 10);
+
+const fieldTemplate = ({ name, source }: NoteField) =>
+  source === 'furigana'
+    ? `{{#${name}}}<div class="field field-${source}">{{furigana:${name}}}</div>{{/${name}}}`
+    : `{{#${name}}}<div class="field field-${source}">{{${name}}}</div>{{/${name}}}`;
+
+function buildModel(modelId: number, deckId: number, options: ApkgOptions, now: number) {
+  const [front, ...back] = options.fields;
+  return {
+    id: modelId,
+    name: options.modelName,
+    type: 0,
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    flds: options.fields.map(({ name }, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    tmpls: [{
+      name: 'Recognition',
+      ord: 0,
+      qfmt: `<div class="word">{{${front.name}}}</div>`,
+      afmt: `{{FrontSide}}\n<hr id="answer">\n${back.map(fieldTemplate).join('\n')}`,
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    }],
+    // Card 0 is generated whenever the first field is non-empty
+    req: [[0, 'any', [0]]],
+  };
+}
+
+function buildDeck(id: number, name: string, now: number) {
+  return {
+    id,
+    name,
+    desc: '',
+    mod: Math.floor(now / 1000),
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  },
+};
+
+export async function buildApkg(options: ApkgOptions): Promise<Uint8Array> {
+  if (options.fields.length === 0) {
+    throw new Error('A note type needs at least one field');
+  }
+
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA);
+
+    const now = Date.now();
+    const deckId = stableId(`deck:${options.deckName}`);
+    const modelId = stableId(`model:${options.modelName}:${options.fields.map(f => f.name).join(',')}`);
+
+    const conf = {
+      activeDecks: [deckId],
+      curDeck: deckId,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: modelId,
+      nextPos: options.notes.length + 1,
+      sortType: 'noteFld',
+      sortBackwards: false,
+      addToCur: true,
+    };
+    const decks = {
+      1: { ...buildDeck(1, 'Default', now), conf: 1 },
+      [deckId]: buildDeck(deckId, options.deckName, now),
+    };
+    const models = { [modelId]: buildModel(modelId, deckId, options, now) };
+
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [
+        Math.floor(now / 1000),
+        now,
+        now,
+        JSON.stringify(conf),
+        JSON.stringify(models),
+        JSON.stringify(decks),
+        JSON.stringify(DECK_CONFIG),
+        '{}',
+      ]
+    );
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+    const modified = Math.floor(now / 1000);
+
+    options.notes.forEach((note, index) => {
+      const noteId = now + index;
+      const fields = options.fields.map((_, i) => note.fields[i] || '');
+      const tags = note.tags && note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '';
+
+      insertNote.run([
+        noteId,
+        noteGuid(options.deckName, fields[0]),
+        modelId,
+        modified,
+        tags,
+        fields.join('\u001f'),
+        stripHtml(fields[0]),
+        fieldChecksum(fields[0]),
+      ]);
+      // New cards are shown in "due" order
+      insertCard.run([noteId, noteId, deckId, modified, index + 1]);
+    });
+
+    insertNote.free();
+    insertCard.free();
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+}
+
+// An upload that isn't a readable Anki package
+export class ApkgFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApkgFormatError';
+  }
+}
+
+// Reads the sort field (normally the first field) of every note in an Anki
+// package. Packages from Anki 23.10+ default to a zstd-compressed
+// collection.anki21b, which needs "Support older Anki versions" on export.
+export async function readApkgSortFields(bytes: Uint8Array): Promise<string[]> {
+  const zip = await JSZip.loadAsync(bytes).catch(() => {
+    throw new ApkgFormatError('Not an Anki package: the file is not a zip archive');
+  });
+  const collection = zip.file('collection.anki21') || zip.file('collection.anki2');
+  if (!collection) {
+    throw new ApkgFormatError(zip.file('collection.anki21b')
+      ? 'This deck uses the newer Anki format. Export it again with "Support older Anki versions" checked.'
+      : 'Not an Anki package: no collection found');
+  }
+
+  const SQL = await loadSql();
+  const db = new SQL.Database(await collection.async('uint8array'));
+  try {
+    const [result] = db.exec('SELECT sfld FROM notes');
+    return result ? result.values.map(([value]) => String(value)) : [];
+  } catch {
+    // sql.js only reads the file when it is first queried
+    throw new ApkgFormatError('Not an Anki package: the collection could not be read');
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { toDelimited } from './delimited';
+
+test('quotes CSV fields with delimiters, quotes and line breaks', () => {
+  const csv = toDelimited([
+    ['word', 'definition'],
+    ['猫', 'cat, feline'],
+    ['言う', 'to say "hello"\nto speak'],
+  ]);
+  assert.equal(csv, 'word,definition\r\n猫,"cat, feline"\r\n言う,"to say ""hello""\nto speak"\r\n');
+});
+
+test('writes empty fields for missing values', () => {
+  assert.equal(toDelimited([['a', null, undefined, 3]]), 'a,,,3\r\n');
+});
+
+test('quotes semicolon-separated fields on semicolons only', () => {
+  assert.equal(toDelimited([['a;b', 'c,d']], ';'), '"a;b";c,d\r\n');
+});
+
+test('replaces tabs and line breaks in TSV fields instead of quoting', () => {
+  assert.equal(toDelimited([['a\tb', 'c\r\nd', 'say "hi"']], '\t'), 'a b\tc d\tsay "hi"\r\n');
+});
@@ -0,0 +1,21 @@
+export type Delimiter = ',' | '\t' | ';';
+
+// Quotes a field per RFC 4180 when it contains the delimiter, a quote or a
+// line break. TSV has no quoting convention that importers agree on, so tabs
+// and line breaks are replaced with spaces instead.
+const formatField = (value: unknown, delimiter: Delimiter): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  if (delimiter === '\t') {
+    return text.replace(/[\t\r\n]+/g, ' ');
+  }
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+export function toDelimited(rows: unknown[][], delimiter: Delimiter = ','): string {
+  return rows
+    .map(row => row.map(value => formatField(value, delimiter)).join(delimiter))
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,110 @@
+import { splitFurigana } from '../analysis/furigana';
+import type { ExampleSentence, WordResult } from '../analysis/types';
+
+// Values a note field can be filled from
+export type FieldSource =
+  | 'word'
+  | 'reading'
+  | 'furigana'
+  | 'partOfSpeech'
+  | 'definition'
+  | 'example'
+  | 'sourceUrl';
+
+export interface NoteField {
+  name: string;
+  source: FieldSource;
+}
+
+export const FIELD_SOURCES: { value: FieldSource; label: string }[] = [
+  { value: 'word', label: 'Word' },
+  { value: 'reading', label: 'Reading' },
+  { value: 'furigana', label: 'Furigana' },
+  { value: 'partOfSpeech', label: 'Part of speech' },
+  { value: 'definition', label: 'Definition' },
+  { value: 'example', label: 'Example sentence' },
+  { value: 'sourceUrl', label: 'Source URL' },
+];
+
+export const DEFAULT_FIELDS: NoteField[] = [
+  { name: 'Word', source: 'word' },
+  { name: 'Reading', source: 'reading' },
+  { name: 'Furigana', source: 'furigana' },
+  { name: 'PartOfSpeech', source: 'partOfSpeech' },
+  { name: 'Definition', source: 'definition' },
+  { name: 'Example', source: 'example' },
+  { name: 'Source', source: 'sourceUrl' },
+];
+
+// Names become {{Name}} references in Anki card templates and the CSV
+// #columns: header, so template syntax and column separators are not allowed
+// in them. Anki also compares field names ignoring case.
+export function fieldNameError(fields: NoteField[]): string | null {
+  const seen = new Set<string>();
+  for (const { name } of fields) {
+    if (!name) return 'Field names cannot be empty';
+    if (/[:{}",\t\r\n]/.test(name) || /^[#/^]/.test(name)) {
+      return `"${name}" is not a valid field name: it cannot contain : { } " or commas, or start with #, / or ^`;
+    }
+    if (seen.has(name.toLowerCase())) return `Field names must be unique ("${name}" is used twice)`;
+    seen.add(name.toLowerCase());
+  }
+  return null;
+}
+
+export interface ExportContext {
+  sourceUrl: string;
+  // Whether field values are HTML (Anki packages) or plain text
+  html?: boolean;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// In HTML the word is wrapped in <b> wherever it occurs in the sentence
+export function formatExample({ text, highlights }: ExampleSentence, html: boolean): string {
+  if (!html) return text;
+  let result = '';
+  let cursor = 0;
+  for (const [start, end] of [...highlights].sort(([a], [b]) => a - b)) {
+    if (start < cursor) continue;
+    result += `${escapeHtml(text.slice(cursor, start))}<b>${escapeHtml(text.slice(start, end))}</b>`;
+    cursor = end;
+  }
+  return result + escapeHtml(text.slice(cursor));
+}
+
+// Formats a word as Anki furigana, e.g. 食べる + たべる -> "食[た]べる"
+export function toAnkiFurigana(word: string, reading: string): string {
+  return splitFurigana(word, reading)
+    // A space before the kanji stops Anki attaching the reading to a kana prefix
+    .map(({ text, reading: partReading }, index) =>
+      partReading ? `${index > 0 ? ' ' : ''}${text}[${partReading}]` : text)
+    .join('');
+}
+
+export function fieldValue(word: WordResult, source: FieldSource, context: ExportContext): string {
+  const html = Boolean(context.html);
+  if (source === 'example') {
+    return word.examples?.[0] ? formatExample(word.examples[0], html) : '';
+  }
+  const value = plainFieldValue(word, source, context);
+  return html ? escapeHtml(value) : value;
+}
+
+function plainFieldValue(word: WordResult, source: Exclude<FieldSource, 'example'>, context: ExportContext): string {
+  switch (source) {
+    case 'word':
+      return word.word;
+    case 'reading':
+      return word.reading;
+    case 'furigana':
+      return toAnkiFurigana(word.word, word.reading);
+    case 'partOfSpeech':
+      return word.partOfSpeech;
+    case 'definition':
+      return word.definition;
+    case 'sourceUrl':
+      return context.sourceUrl;
+  }
+}
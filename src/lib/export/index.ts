@@ -0,0 +1,50 @@
+import type { WordResult } from '../analysis/types';
+import { buildApkg } from './apkg';
+import { toDelimited } from './delimited';
+import { fieldValue, type ExportContext, type NoteField } from './fields';
+
+export type ExportFormat = 'apkg' | 'csv' | 'tsv';
+
+export interface ExportOptions extends ExportContext {
+  format: ExportFormat;
+  deckName: string;
+  fields: NoteField[];
+}
+
+export interface ExportFile {
+  body: Uint8Array | string;
+  contentType: string;
+  extension: string;
+}
+
+export const NOTE_TYPE_NAME = 'Luminos Japanese';
+
+// Header lines understood by Anki's text importer (2.1.55+), so the columns
+// map onto fields without a row of column names being imported as a note
+const ankiTextHeader = (fields: NoteField[], separator: 'Comma' | 'Tab') => [
+  `#separator:${separator}`,
+  '#html:false',
+  `#columns:${fields.map(field => field.name).join(separator === 'Tab' ? '\t' : ',')}`,
+].join('\r\n') + '\r\n';
+
+export async function exportWords(words: WordResult[], options: ExportOptions): Promise<ExportFile> {
+  const context = { ...options, html: options.format === 'apkg' };
+  const rows = words.map(word => options.fields.map(field => fieldValue(word, field.source, context)));
+
+  if (options.format === 'apkg') {
+    const body = await buildApkg({
+      deckName: options.deckName,
+      modelName: NOTE_TYPE_NAME,
+      fields: options.fields,
+      notes: rows.map(fields => ({ fields, tags: ['luminos'] })),
+    });
+    return { body, contentType: 'application/apkg', extension: 'apkg' };
+  }
+
+  const tsv = options.format === 'tsv';
+  return {
+    body: ankiTextHeader(options.fields, tsv ? 'Tab' : 'Comma') + toDelimited(rows, tsv ? '\t' : ','),
+    contentType: `${tsv ? 'text/tab-separated-values' : 'text/csv'};charset=utf-8`,
+    extension: options.format,
+  };
+}
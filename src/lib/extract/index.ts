@@ -0,0 +1,130 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { BLOCK_SELECTOR, findArticleNode, removeUnlikelyCandidates } from './readability';
+import { findSiteRule } from './sites';
+
+// 'article' extracts the main content block; 'full' is the whole body text
+export type ExtractMode = 'article' | 'full';
+
+export interface ExtractedContent {
+  mode: ExtractMode;
+  title: string;
+  byline: string;
+  publishedAt: string;
+  paragraphs: string[];
+  content: string;
+}
+
+// Below this many characters the article heuristics probably picked a
+// teaser or caption, so we fall back to the full page text
+const MIN_ARTICLE_LENGTH = 200;
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const firstText = ($: CheerioAPI, selector?: string) => {
+  if (!selector) return '';
+  for (const el of $(selector).toArray()) {
+    const text = clean($(el).text());
+    if (text) return text;
+  }
+  return '';
+};
+
+const metaContent = ($: CheerioAPI, selectors: string[]) => {
+  for (const selector of selectors) {
+    const value = $(selector).attr('content');
+    if (value && value.trim()) return value.trim();
+  }
+  return '';
+};
+
+const readMetadata = ($: CheerioAPI, url: string) => {
+  const rule = findSiteRule(url);
+
+  const title = firstText($, rule?.title)
+    || metaContent($, ['meta[property="og:title"]', 'meta[name="twitter:title"]'])
+    || firstText($, 'article h1, main h1, h1')
+    || clean($('title').text());
+
+  const byline = firstText($, rule?.byline)
+    || metaContent($, ['meta[name="author"]', 'meta[property="article:author"]'])
+    || firstText($, '[rel="author"], [itemprop="author"], .byline, .author');
+
+  const publishedAt = (rule?.date && $(rule.date).attr('datetime'))
+    || firstText($, rule?.date)
+    || metaContent($, [
+      'meta[property="article:published_time"]',
+      'meta[itemprop="datePublished"]',
+      'meta[name="date"]',
+      'meta[name="pubdate"]',
+    ])
+    || $('time[datetime]').first().attr('datetime')
+    || '';
+
+  return { title, byline, publishedAt };
+};
+
+const paragraphsOf = ($: CheerioAPI, $node: Cheerio<Element>) => {
+  const blocks = $node.find(BLOCK_SELECTOR).toArray()
+    // Skip blocks nested inside another block so list items in a quote are not repeated
+    .filter(el => $(el).parentsUntil($node).filter(BLOCK_SELECTOR).length === 0)
+    .map(el => clean($(el).text()))
+    .filter(Boolean);
+
+  if (blocks.length > 0) return blocks;
+
+  // No block markup: fall back to line breaks in the raw text
+  return $node.text().split(/\n+/).map(clean).filter(Boolean);
+};
+
+const findContentNode = ($: CheerioAPI, url: string): Cheerio<Element> | null => {
+  const rule = findSiteRule(url);
+  if (rule) {
+    const $content = $(rule.content);
+    if ($content.length > 0) {
+      if (rule.remove) $content.find(rule.remove).remove();
+      return $content as Cheerio<Element>;
+    }
+  }
+
+  for (const selector of ['article', '[itemprop="articleBody"]', 'main', '[role="main"]']) {
+    const $candidate = $(selector);
+    // Several <article>s usually means a list of teasers rather than one story
+    if ($candidate.length === 1 && clean($candidate.text()).length >= MIN_ARTICLE_LENGTH) {
+      return $candidate as Cheerio<Element>;
+    }
+  }
+
+  return findArticleNode($);
+};
+
+export function extractContent(html: string, url: string, mode: ExtractMode = 'article'): ExtractedContent {
+  const $ = cheerio.load(html);
+  const metadata = readMetadata($, url);
+  // Furigana in <ruby> would otherwise be read as part of the sentence
+  $('rt, rp').remove();
+
+  if (mode === 'article') {
+    removeUnlikelyCandidates($);
+    const $node = findContentNode($, url);
+    if ($node) {
+      const paragraphs = paragraphsOf($, $node);
+      const content = paragraphs.join('\n');
+      if (content.length >= MIN_ARTICLE_LENGTH) {
+        return { mode, ...metadata, paragraphs, content };
+      }
+    }
+    // Reload so the full-text fallback is not missing the removed elements
+    return extractContent(html, url, 'full');
+  }
+
+  $('script, style').remove();
+  const content = $('body').text().trim();
+  return {
+    mode: 'full',
+    ...metadata,
+    paragraphs: content.split(/\n+/).map(clean).filter(Boolean),
+    content,
+  };
+}
@@ -0,0 +1,86 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+
+// A stripped-down version of Mozilla Readability's scoring: every paragraph
+// awards points to its parent and grandparent, weighted by text length and
+// punctuation, and the highest-scoring container (after a link-density
+// penalty) is taken to be the article body.
+
+const UNLIKELY = /comment|footer|nav|menu|sidebar|side-|related|recommend|ranking|ad-|ads|banner|promo|share|sns|social|breadcrumb|pagination|header|popup|modal|login/i;
+const POSITIVE = /article|body|content|entry|main|post|text|story|detail|honbun/i;
+const NEGATIVE = /comment|footer|nav|sidebar|related|ranking|share|sns|banner|promo|ad-|widget|hidden/i;
+
+// Japanese sentences are dense, so the length thresholds are lower than
+// Readability's English defaults
+const MIN_PARAGRAPH_LENGTH = 20;
+
+export const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, li, blockquote, pre, dd';
+
+const classWeight = ($el: Cheerio<Element>) => {
+  const names = `${$el.attr('class') || ''} ${$el.attr('id') || ''}`;
+  let weight = 0;
+  if (POSITIVE.test(names)) weight += 25;
+  if (NEGATIVE.test(names)) weight -= 25;
+  return weight;
+};
+
+const linkDensity = ($: CheerioAPI, $el: Cheerio<Element>) => {
+  const length = $el.text().trim().length;
+  if (length === 0) return 1;
+  const linkLength = $el.find('a').toArray()
+    .reduce((sum, link) => sum + $(link).text().trim().length, 0);
+  return linkLength / length;
+};
+
+// Drops elements that are almost never part of an article body
+export function removeUnlikelyCandidates($: CheerioAPI) {
+  $('script, style, noscript, iframe, form, nav, footer, aside, header, svg, button').remove();
+  $('[role="navigation"], [role="banner"], [role="complementary"], [aria-hidden="true"]').remove();
+  $('body *').each((_, el) => {
+    const $el = $(el);
+    const names = `${$el.attr('class') || ''} ${$el.attr('id') || ''}`;
+    if (UNLIKELY.test(names) && !POSITIVE.test(names) && el.tagName !== 'body' && el.tagName !== 'article') {
+      $el.remove();
+    }
+  });
+}
+
+export function findArticleNode($: CheerioAPI): Cheerio<Element> | null {
+  const scores = new Map<Element, number>();
+
+  const addScore = (el: Element | null, points: number) => {
+    if (!el || el.type !== 'tag') return;
+    if (!scores.has(el)) {
+      scores.set(el, classWeight($(el)));
+    }
+    scores.set(el, (scores.get(el) || 0) + points);
+  };
+
+  $('p, pre, td, div').each((_, el) => {
+    const $el = $(el);
+    // Only count divs that hold text directly rather than wrapping other blocks
+    if (el.tagName === 'div' && $el.children('p, div, ul, ol, table').length > 0) return;
+
+    const text = $el.text().trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    const commas = (text.match(/[、，,。]/g) || []).length;
+    const points = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = el.parent as Element | null;
+    addScore(parent, points);
+    addScore(parent?.parent as Element | null, points / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, $(el)));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  return best ? $(best) : null;
+}
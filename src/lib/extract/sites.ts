@@ -0,0 +1,51 @@
+// Per-site selectors for pages where generic scoring picks the wrong block.
+// Rules are matched against the page hostname; the first match wins.
+export interface SiteRule {
+  hosts: RegExp;
+  content: string;
+  title?: string;
+  byline?: string;
+  date?: string;
+  // Elements inside the content block to drop before reading its text
+  remove?: string;
+}
+
+export const SITE_RULES: SiteRule[] = [
+  {
+    // NHK NEWS WEB articles
+    hosts: /(^|\.)nhk\.or\.jp$/,
+    content: '.content--detail-body, #news_textbody, #news_textmore, .news_add',
+    title: '.content--title, .contentTitle',
+    date: '.content--date time, #news_date',
+    remove: '.content--detail-more-button, .module--share',
+  },
+  {
+    // NHK NEWS WEB EASY
+    hosts: /(^|\.)news\.web\.nhk$/,
+    content: '#js-article-body, .article-body',
+    title: '.article-title',
+    date: '.article-date',
+  },
+  {
+    hosts: /(^|\.)asahi\.com$/,
+    content: '.articleBody, [class*="article__body"]',
+  },
+  {
+    hosts: /(^|\.)mainichi\.jp$/,
+    content: '#articledetail-body, .articledetail-body',
+  },
+  {
+    hosts: /(^|\.)yomiuri\.co\.jp$/,
+    content: '.p-main-contents',
+  },
+];
+
+export function findSiteRule(url: string): SiteRule | undefined {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+  return SITE_RULES.find(rule => rule.hosts.test(hostname));
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { decodeHtml } from './charset';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+test('sniffs UTF-8 in a body longer than the sample', () => {
+  const body = 'こんにちは、世界。'.repeat(2000);
+  // Shift where the sample ends so it falls inside a character as well as
+  // on a boundary
+  for (const padding of ['', 'a', 'ab']) {
+    const html = `<html><body>${padding}${body}</body></html>`;
+    const decoded = decodeHtml(encode(html), 'text/html');
+    assert.equal(decoded.encoding, 'utf-8');
+    assert.equal(decoded.source, 'sniffed');
+    assert.equal(decoded.html, html);
+  }
+});
+
+test('prefers a declared charset over sniffing', () => {
+  const decoded = decodeHtml(encode('<p>日本語</p>'), 'text/html; charset=UTF-8');
+  assert.equal(decoded.encoding, 'utf-8');
+  assert.equal(decoded.source, 'header');
+});
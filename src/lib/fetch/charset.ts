@@ -0,0 +1,104 @@
+// Works out the character encoding of a fetched HTML page. Precedence follows
+// the HTML spec: byte order mark, then the Content-Type header, then a
+// <meta> declaration, and finally sniffing the bytes themselves.
+
+export interface DecodedHtml {
+  html: string;
+  encoding: string;
+  // Where the encoding came from, useful when a page still decodes badly
+  source: 'bom' | 'header' | 'meta' | 'sniffed' | 'default';
+}
+
+// Labels seen on Japanese sites that the WHATWG encoding list doesn't include
+const LABEL_ALIASES: Record<string, string> = {
+  cp932: 'shift_jis',
+  'shift-jis': 'shift_jis',
+  sjis_open: 'shift_jis',
+  eucjp: 'euc-jp',
+  'x-euc': 'euc-jp',
+};
+
+// How many bytes to scan for <meta charset> and to sniff
+const PRESCAN_BYTES = 4096;
+
+// Returns the canonical encoding name, or null if TextDecoder can't handle it
+export function normalizeEncoding(label: string | null | undefined): string | null {
+  if (!label) return null;
+  const trimmed = label.trim().toLowerCase().replace(/^["']|["']$/g, '');
+  try {
+    return new TextDecoder(LABEL_ALIASES[trimmed] || trimmed).encoding;
+  } catch {
+    return null;
+  }
+}
+
+const charsetFromContentType = (contentType: string | null) =>
+  normalizeEncoding(contentType?.match(/charset\s*=\s*([^;\s]+)/i)?.[1]);
+
+const charsetFromBom = (bytes: Uint8Array) => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  return null;
+};
+
+const charsetFromMeta = (bytes: Uint8Array) => {
+  // Declarations are ASCII, so a latin1 view of the head is enough to find them
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, PRESCAN_BYTES));
+  const charset = head.match(/<meta[^>]+charset\s*=\s*["']?\s*([\w-]+)/i)?.[1];
+  return normalizeEncoding(charset);
+};
+
+const countJapanese = (text: string) =>
+  (text.match(/[ぁ-ゖァ-ヺ一-龯]/g) || []).length;
+
+const countReplacements = (text: string) => (text.match(/�/g) || []).length;
+
+const sniffCharset = (bytes: Uint8Array): string | null => {
+  const sample = bytes.subarray(0, PRESCAN_BYTES * 4);
+  // The sample may end partway through a multibyte character; streaming
+  // decodes hold those trailing bytes back instead of treating them as invalid
+  const truncated = sample.length < bytes.length;
+
+  // ISO-2022-JP switches character sets with escape sequences
+  for (let i = 0; i < sample.length - 2; i++) {
+    if (sample[i] === 0x1b && sample[i + 1] === 0x24 && (sample[i + 2] === 0x42 || sample[i + 2] === 0x40)) {
+      return 'iso-2022-jp';
+    }
+  }
+
+  if (sample.every(byte => byte < 0x80)) return null;
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: truncated });
+    return 'utf-8';
+  } catch {
+    // Not UTF-8; fall through to the legacy encodings
+  }
+
+  // Decode as both legacy encodings and keep whichever yields more Japanese
+  // characters and fewer invalid sequences
+  const score = (encoding: string) => {
+    const text = new TextDecoder(encoding).decode(sample, { stream: truncated });
+    return countJapanese(text) - countReplacements(text) * 10;
+  };
+  return score('shift_jis') >= score('euc-jp') ? 'shift_jis' : 'euc-jp';
+};
+
+export function decodeHtml(bytes: Uint8Array, contentType: string | null): DecodedHtml {
+  const detectors: [DecodedHtml['source'], () => string | null][] = [
+    ['bom', () => charsetFromBom(bytes)],
+    ['header', () => charsetFromContentType(contentType)],
+    ['meta', () => charsetFromMeta(bytes)],
+    ['sniffed', () => sniffCharset(bytes)],
+  ];
+
+  for (const [source, detect] of detectors) {
+    const encoding = detect();
+    if (encoding) {
+      return { html: new TextDecoder(encoding).decode(bytes), encoding, source };
+    }
+  }
+
+  return { html: new TextDecoder('utf-8').decode(bytes), encoding: 'utf-8', source: 'default' };
+}
@@ -0,0 +1,32 @@
+export type FetchErrorCode =
+  | 'INVALID_URL'
+  | 'BLOCKED_HOST'
+  | 'TIMEOUT'
+  | 'TOO_LARGE'
+  | 'UPSTREAM_STATUS'
+  | 'NOT_HTML'
+  | 'FETCH_FAILED';
+
+// HTTP status the API responds with for each error code
+export const FETCH_ERROR_STATUS: Record<FetchErrorCode, number> = {
+  INVALID_URL: 400,
+  BLOCKED_HOST: 403,
+  TIMEOUT: 504,
+  TOO_LARGE: 413,
+  UPSTREAM_STATUS: 502,
+  NOT_HTML: 415,
+  FETCH_FAILED: 502,
+};
+
+export class FetchError extends Error {
+  readonly code: FetchErrorCode;
+  // The upstream HTTP status, for UPSTREAM_STATUS errors
+  readonly upstreamStatus?: number;
+
+  constructor(code: FetchErrorCode, message: string, upstreamStatus?: number) {
+    super(message);
+    this.name = 'FetchError';
+    this.code = code;
+    this.upstreamStatus = upstreamStatus;
+  }
+}
@@ -0,0 +1,46 @@
+import * as cheerio from 'cheerio';
+import { decodeHtml } from './charset';
+import { FetchError } from './errors';
+import { safeFetch } from './safe-fetch';
+
+const FEED_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/xml',
+  'text/xml',
+];
+
+// Article links of an RSS 1.0/2.0 or Atom feed, in feed order and resolved
+// against the feed's own URL
+export function parseFeedLinks(xml: string, baseUrl: string): string[] {
+  const $ = cheerio.load(xml, { xml: true });
+  const links = [
+    ...$('item > link').toArray().map(el => $(el).text().trim()),
+    ...$('entry').toArray().map(entry => {
+      const entryLinks = $(entry).find('link');
+      const alternate = entryLinks.filter((_, link) => ($(link).attr('rel') || 'alternate') === 'alternate').first();
+      return (alternate.length ? alternate : entryLinks.first()).attr('href') || '';
+    }),
+  ];
+
+  const resolved = links.flatMap(link => {
+    try {
+      return link ? [new URL(link, baseUrl).toString()] : [];
+    } catch {
+      return [];
+    }
+  });
+  return Array.from(new Set(resolved));
+}
+
+// Fetches a feed with the same safeguards as article pages. Throws FetchError.
+export async function fetchFeedLinks(url: unknown): Promise<string[]> {
+  const response = await safeFetch(url, { accept: FEED_TYPES });
+  const { html: xml } = decodeHtml(response.bytes, response.contentType);
+  const links = parseFeedLinks(xml, response.url);
+  if (links.length === 0) {
+    throw new FetchError('NOT_HTML', 'That URL is not an RSS or Atom feed with article links');
+  }
+  return links;
+}
@@ -0,0 +1,27 @@
+import { extractContent, type ExtractedContent, type ExtractMode } from '../extract';
+import { decodeHtml } from './charset';
+import { safeFetch } from './safe-fetch';
+
+export { FETCH_ERROR_STATUS, FetchError, type FetchErrorCode } from './errors';
+export { fetchFeedLinks, parseFeedLinks } from './feed';
+
+export interface FetchedArticle extends ExtractedContent {
+  encoding: string;
+  url: string;
+}
+
+// Fetches a page and extracts its readable text. Throws FetchError, or the
+// abort reason when the signal fires.
+export async function fetchArticle(
+  url: unknown,
+  mode: ExtractMode = 'article',
+  signal?: AbortSignal
+): Promise<FetchedArticle> {
+  const response = await safeFetch(url, { signal });
+  // Decode ourselves rather than with response.text(), which assumes UTF-8
+  // and garbles Shift_JIS and EUC-JP pages
+  const { html, encoding } = decodeHtml(response.bytes, response.contentType);
+  const extracted = extractContent(html, response.url, mode);
+
+  return { ...extracted, encoding, url: response.url };
+}
@@ -0,0 +1,241 @@
+import dns from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent, fetch, type Response } from 'undici';
+import { FetchError } from './errors';
+
+export interface SafeFetchOptions {
+  timeoutMs?: number;
+  maxBytes?: number;
+  maxRedirects?: number;
+  // Accepted Content-Type media types; a missing header is allowed through
+  accept?: string[];
+  // Cancels the request, e.g. when the client disconnects
+  signal?: AbortSignal;
+}
+
+export interface SafeFetchResult {
+  bytes: Uint8Array;
+  contentType: string | null;
+  // The URL after following redirects
+  url: string;
+}
+
+export const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+
+const DEFAULT_TIMEOUT_MS = Number(process.env.FETCH_TIMEOUT_MS) || 15_000;
+const DEFAULT_MAX_BYTES = Number(process.env.FETCH_MAX_BYTES) || 5 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and other
+// reserved ranges that a server-side fetch must never reach. BlockList checks
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4 rules; NAT64
+// and 6to4 addresses embed an IPv4 address it can't see, so those ranges are
+// blocked whole.
+const blockedRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+const isBlockedAddress = (address: string) => {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedRanges.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+export function parseHttpUrl(raw: unknown): URL {
+  if (typeof raw !== 'string' || !raw.trim()) {
+    throw new FetchError('INVALID_URL', 'A URL is required');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    throw new FetchError('INVALID_URL', `Not a valid URL: ${raw}`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchError('INVALID_URL', `Only http and https URLs are supported, not ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new FetchError('INVALID_URL', 'URLs with credentials are not supported');
+  }
+  return url;
+}
+
+const blockedHostError = (hostname: string) =>
+  new FetchError('BLOCKED_HOST', `Refusing to fetch ${hostname}: it resolves to a private or reserved address`);
+
+// Resolves the hostname and rejects it if any address is on a private network.
+// Checking every address stops a name that resolves to both a public and a
+// private IP from slipping through.
+async function assertPublicHost(url: URL) {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(hostname, { all: true })).map(result => result.address);
+    } catch {
+      throw new FetchError('INVALID_URL', `Could not resolve host ${hostname}`);
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw blockedHostError(hostname);
+  }
+}
+
+// assertPublicHost gives a clear error up front, but the name is resolved
+// again when connecting and could point somewhere else by then (DNS
+// rebinding). Connections therefore resolve through this lookup, which
+// applies the same check to the addresses actually connected to.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, '');
+    } else if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(blockedHostError(hostname), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// An unread body keeps its connection checked out of the agent
+const discardBody = async (response: Response) => {
+  await response.body?.cancel().catch(() => undefined);
+};
+
+async function readLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) {
+    await discardBody(response);
+    throw new FetchError('TOO_LARGE', `Response is ${declared} bytes; the limit is ${maxBytes}`);
+  }
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new FetchError('TOO_LARGE', `Response exceeds the ${maxBytes} byte limit`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// fetch() for user-supplied URLs: http(s) only, no private networks (checked
+// again on every redirect hop), and bounded in time and size.
+export async function safeFetch(rawUrl: unknown, options: SafeFetchOptions = {}): Promise<SafeFetchResult> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    accept = HTML_TYPES,
+    signal,
+  } = options;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  try {
+    signal?.throwIfAborted();
+    let url = parseHttpUrl(rawUrl);
+
+    for (let redirects = 0; ; redirects++) {
+      await assertPublicHost(url);
+
+      const response = await fetch(url, {
+        dispatcher: publicAgent,
+        redirect: 'manual',
+        signal: controller.signal,
+        headers: { 'Accept': `${accept.join(', ')}, */*;q=0.1` },
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await discardBody(response);
+        if (redirects >= maxRedirects) {
+          throw new FetchError('UPSTREAM_STATUS', `Too many redirects (more than ${maxRedirects})`, response.status);
+        }
+        url = parseHttpUrl(new URL(location, url).toString());
+        continue;
+      }
+
+      if (!response.ok) {
+        await discardBody(response);
+        throw new FetchError('UPSTREAM_STATUS', `The site responded with HTTP ${response.status}`, response.status);
+      }
+
+      const contentType = response.headers.get('content-type');
+      const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+      if (mediaType && !accept.includes(mediaType)) {
+        await discardBody(response);
+        throw new FetchError('NOT_HTML', `Expected ${accept.join(' or ')} but got ${mediaType}`);
+      }
+
+      const bytes = await readLimited(response, maxBytes);
+      return { bytes, contentType, url: url.toString() };
+    }
+  } catch (err) {
+    if (err instanceof FetchError) throw err;
+    // fetch wraps errors from the connection, including publicLookup's
+    if (err instanceof Error && err.cause instanceof FetchError) throw err.cause;
+    // A cancelled request is not a fetch failure; let the caller see the abort
+    if (signal?.aborted) throw signal.reason;
+    if (controller.signal.aborted) {
+      throw new FetchError('TIMEOUT', `No complete response within ${timeoutMs / 1000} seconds`);
+    }
+    throw new FetchError('FETCH_FAILED', err instanceof Error ? err.message : 'Failed to fetch URL');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
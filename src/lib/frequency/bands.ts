@@ -0,0 +1,20 @@
+export type FrequencyBand = 'very-common' | 'common' | 'uncommon' | 'rare';
+
+// Upper rank bound of each band in a list of at least 10,000 words. Words
+// missing from the rank list are rare.
+export const FREQUENCY_BANDS: { band: FrequencyBand; label: string; maxRank: number }[] = [
+  { band: 'very-common', label: 'Very common', maxRank: 500 },
+  { band: 'common', label: 'Common', maxRank: 2000 },
+  { band: 'uncommon', label: 'Uncommon', maxRank: 10000 },
+  { band: 'rare', label: 'Rare', maxRank: Infinity },
+];
+
+const FULL_LIST_SIZE = 10000;
+
+// Null when there is no rank list to place words in. A shorter list scales
+// the bounds down, so its last words are uncommon rather than nothing being.
+export const frequencyBandFor = (rank: number | null, listSize: number): FrequencyBand | null => {
+  if (listSize === 0) return null;
+  const scale = Math.min(1, listSize / FULL_LIST_SIZE);
+  return FREQUENCY_BANDS.find(({ maxRank }) => rank !== null && rank <= maxRank * scale)?.band || 'rare';
+};
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export { FREQUENCY_BANDS, frequencyBandFor, type FrequencyBand } from './bands';
+export { rankByNewsFrequency } from './news';
+
+// ranks.txt lists reference words most frequent first, and a "# Source:"
+// header names where the ranking comes from. The bundled list is JMdict's
+// newspaper frequency ranking (see data/NOTICE); `npm run build-frequency`
+// replaces it with counts from a corpus of your own, plus documents.json with
+// the number of documents each word appears in.
+export const DEFAULT_FREQUENCY_DIR = process.env.FREQUENCY_DATA_DIR
+  || path.join(process.cwd(), 'data', 'frequency');
+
+export interface DocumentFrequencies {
+  source: string;
+  builtAt: string;
+  documents: number;
+  // Number of reference documents each lemma appears in
+  df: Record<string, number>;
+}
+
+export interface FrequencyData {
+  // Where the rank list comes from, or null if there is none
+  source: string | null;
+  // 1-based position in the rank list, or null for unlisted words
+  rank(lemma: string): number | null;
+  // Inverse document frequency against the reference corpus, or estimated
+  // from the rank when there are no document counts
+  idf(lemma: string): number;
+  size: number;
+}
+
+export const parseRankList = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+
+export const parseRankSource = (text: string): string | null =>
+  /^#\s*Source:\s*(.+)$/m.exec(text)?.[1].trim() || null;
+
+// Writes ranks.txt. A list without document counts replaces any
+// documents.json left from an earlier corpus build.
+export async function writeRankList(
+  ranks: string[],
+  source: string,
+  dir: string = DEFAULT_FREQUENCY_DIR,
+  description = 'Most frequent first'
+) {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.rm(path.join(dir, 'documents.json'), { force: true });
+  await fs.writeFile(
+    path.join(dir, 'ranks.txt'),
+    `# Source: ${source}\n# ${description}\n` + ranks.join('\n') + '\n'
+  );
+}
+
+export async function writeFrequencyData(
+  frequencies: DocumentFrequencies,
+  ranks: string[],
+  dir: string = DEFAULT_FREQUENCY_DIR
+) {
+  await writeRankList(
+    ranks,
+    frequencies.source,
+    dir,
+    `Most frequent first, counted over ${frequencies.documents} documents`
+  );
+  await fs.writeFile(path.join(dir, 'documents.json'), JSON.stringify(frequencies));
+}
+
+export function createFrequencyData(
+  ranks: string[],
+  documents: DocumentFrequencies | null,
+  listSource: string | null = null
+): FrequencyData {
+  const positions = new Map<string, number>();
+  ranks.forEach((lemma, index) => {
+    if (!positions.has(lemma)) positions.set(lemma, index + 1);
+  });
+  const rank = (lemma: string) => positions.get(lemma) ?? null;
+
+  // Word frequencies roughly follow Zipf's law, falling off as 1/rank, so
+  // without document counts the log of the rank stands in for the idf.
+  // Unlisted words rank just below the whole list.
+  const idf = documents
+    ? (lemma: string) => Math.log((documents.documents + 1) / ((documents.df[lemma] || 0) + 1)) + 1
+    : (lemma: string) => Math.log((rank(lemma) ?? positions.size + 1) + 1);
+
+  return {
+    source: positions.size > 0 ? documents?.source || listSource || 'ranks.txt' : null,
+    rank,
+    idf,
+    size: positions.size,
+  };
+}
+
+let frequencyData: Promise<FrequencyData> | null = null;
+
+// Loaded once per process; missing files leave the data empty
+export function getFrequencyData(): Promise<FrequencyData> {
+  if (!frequencyData) {
+    frequencyData = (async () => {
+      const [rankText, documents] = await Promise.all([
+        fs.readFile(path.join(DEFAULT_FREQUENCY_DIR, 'ranks.txt'), 'utf8')
+          .catch(() => ''),
+        fs.readFile(path.join(DEFAULT_FREQUENCY_DIR, 'documents.json'), 'utf8')
+          .then(text => JSON.parse(text) as DocumentFrequencies)
+          .catch(() => null),
+      ]);
+      return createFrequencyData(parseRankList(rankText), documents, parseRankSource(rankText));
+    })();
+  }
+  return frequencyData;
+}
@@ -0,0 +1,31 @@
+// JMdict marks about 24,000 words with nf01 to nf48: the 500-word set of a
+// frequency count of the Mainichi Shimbun each falls in, most frequent first.
+// Within a set, words JMdict also marks as common (news1, ichi1, spec1...)
+// come first.
+
+export interface NewsFrequencyForm {
+  written: string;
+  priorities: string[];
+}
+
+const newsSet = (priorities: string[]) => {
+  const sets = priorities.map(priority => /^nf(\d\d)$/.exec(priority)?.[1]).filter(Boolean).map(Number);
+  return sets.length > 0 ? Math.min(...sets) : null;
+};
+
+// Words ranked by their nf set, for ranks.txt. Forms without one are left out.
+export function rankByNewsFrequency(forms: Iterable<NewsFrequencyForm>): string[] {
+  const best = new Map<string, { set: number; markers: number }>();
+  for (const { written, priorities } of forms) {
+    const set = newsSet(priorities);
+    if (set === null) continue;
+    const current = best.get(written);
+    const markers = priorities.length;
+    if (!current || set < current.set || (set === current.set && markers > current.markers)) {
+      best.set(written, { set, markers });
+    }
+  }
+  return Array.from(best)
+    .sort(([a, x], [b, y]) => x.set - y.set || y.markers - x.markers || (a < b ? -1 : a > b ? 1 : 0))
+    .map(([written]) => written);
+}
@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseRankList } from '../frequency';
+import { getKanjiData, kanjiIn } from '../kanji';
+import { JLPT_LEVELS, type JlptLevel } from './levels';
+
+export { JLPT_LEVELS, isAtOrBelow, isJlptLevel, normalizeJlptLevel, type JlptLevel } from './levels';
+
+// Optional vocabulary lists, one per level, n5.txt (easiest) to n1.txt. None
+// are bundled; see the README for where to get them.
+export const DEFAULT_JLPT_DIR = process.env.JLPT_DATA_DIR
+  || path.join(process.cwd(), 'data', 'jlpt');
+
+export interface JlptLevels {
+  // The word's level on the vocabulary lists
+  listed(word: string): JlptLevel | null;
+  // The listed level, or else the level of the word's hardest kanji. Words
+  // without kanji, or with a kanji that has no level, have none.
+  estimate(word: string): JlptLevel | null;
+}
+
+let levels: Promise<JlptLevels> | null = null;
+
+// Loaded once per process. A word listed at several levels keeps the easiest.
+export function getJlptLevels(): Promise<JlptLevels> {
+  if (!levels) {
+    levels = (async () => {
+      const [lists, kanji] = await Promise.all([
+        Promise.all(JLPT_LEVELS.map(level =>
+          fs.readFile(path.join(DEFAULT_JLPT_DIR, `${level.toLowerCase()}.txt`), 'utf8')
+            .then(parseRankList)
+            .catch(() => [])
+        )),
+        getKanjiData(),
+      ]);
+      const byWord = new Map<string, JlptLevel>();
+      lists.forEach((words, index) => {
+        words.forEach(word => {
+          if (!byWord.has(word)) byWord.set(word, JLPT_LEVELS[index]);
+        });
+      });
+
+      const kanjiLevel = (word: string) => {
+        const found = kanjiIn(word).map(char => kanji[char]?.jlpt || null);
+        if (found.length === 0 || found.includes(null)) return null;
+        return JLPT_LEVELS[Math.max(...found.map(level => JLPT_LEVELS.indexOf(level!)))];
+      };
+
+      return {
+        listed: word => byWord.get(word) || null,
+        estimate: word => byWord.get(word) || kanjiLevel(word),
+      };
+    })();
+  }
+  return levels;
+}
@@ -0,0 +1,17 @@
+export type JlptLevel = 'N5' | 'N4' | 'N3' | 'N2' | 'N1';
+
+// Easiest first
+export const JLPT_LEVELS: JlptLevel[] = ['N5', 'N4', 'N3', 'N2', 'N1'];
+
+export const isJlptLevel = (value: unknown): value is JlptLevel =>
+  JLPT_LEVELS.includes(value as JlptLevel);
+
+// Accepts the dictionary's "jlpt-n3" tags as well as plain "N3"
+export const normalizeJlptLevel = (value: string): JlptLevel | null => {
+  const level = value.replace(/^jlpt-/i, '').toUpperCase();
+  return isJlptLevel(level) ? level : null;
+};
+
+// True when level a is no harder than level b
+export const isAtOrBelow = (a: JlptLevel, b: JlptLevel) =>
+  JLPT_LEVELS.indexOf(a) <= JLPT_LEVELS.indexOf(b);
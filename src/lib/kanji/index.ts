@@ -0,0 +1,54 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KanjiCount, KanjiInfo } from './types';
+
+export type { KanjiCount, KanjiInfo } from './types';
+
+// A JSON object keyed by character. The bundled file covers the graded and
+// JLPT kanji (see data/NOTICE); `npm run import-kanjidic` replaces it with
+// the full KANJIDIC2 set.
+export const DEFAULT_KANJI_PATH = process.env.KANJI_DATA_PATH
+  || path.join(process.cwd(), 'data', 'kanji', 'kanji.json');
+
+const KANJI_PATTERN = /[一-龯々]/g;
+
+export const kanjiIn = (text: string): string[] =>
+  Array.from(new Set(text.match(KANJI_PATTERN) || [])).filter(char => char !== '々');
+
+let kanjiData: Promise<Record<string, KanjiInfo>> | null = null;
+
+// Loaded once per process; a missing file just means no kanji details
+export function getKanjiData(): Promise<Record<string, KanjiInfo>> {
+  kanjiData ||= fs.readFile(DEFAULT_KANJI_PATH, 'utf8')
+    .then(text => JSON.parse(text) as Record<string, KanjiInfo>)
+    .catch(() => ({}));
+  return kanjiData;
+}
+
+export async function writeKanjiData(
+  kanji: AsyncIterable<KanjiInfo> | Iterable<KanjiInfo>,
+  file: string = DEFAULT_KANJI_PATH
+): Promise<number> {
+  const data: Record<string, KanjiInfo> = {};
+  for await (const info of kanji) {
+    data[info.literal] = info;
+  }
+  // One character per line keeps diffs of the data file readable
+  const lines = Object.entries(data).map(([literal, info]) => `${JSON.stringify(literal)}:${JSON.stringify(info)}`);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `{\n${lines.join(',\n')}\n}\n`);
+  return Object.keys(data).length;
+}
+
+// Counts every kanji occurrence in the text, most frequent first
+export async function countKanji(text: string, limit: number): Promise<KanjiCount[]> {
+  const data = await getKanjiData();
+  const counts = new Map<string, number>();
+  for (const char of text.match(KANJI_PATTERN) || []) {
+    if (char === '々') continue;
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  return Array.from(counts, ([literal, count]) => ({ literal, count, info: data[literal] || null }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
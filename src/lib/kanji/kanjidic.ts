@@ -0,0 +1,61 @@
+import { createReadStream } from 'fs';
+import { createGunzip } from 'zlib';
+import type { Readable } from 'stream';
+import type { JlptLevel } from '../jlpt/levels';
+import type { KanjiInfo } from './types';
+
+// KANJIDIC2 still uses the four levels of the pre-2010 JLPT. N3 was carved
+// out of the old level 2, so old level 2 maps to N2.
+const OLD_JLPT_LEVELS: Record<string, JlptLevel> = {
+  '4': 'N5',
+  '3': 'N4',
+  '2': 'N2',
+  '1': 'N1',
+};
+
+const decodeXml = (text: string) =>
+  text.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+
+const firstMatch = (block: string, pattern: RegExp) => block.match(pattern)?.[1];
+
+const parseCharacter = (block: string): KanjiInfo | null => {
+  const literal = firstMatch(block, /<literal>([\s\S]*?)<\/literal>/);
+  if (!literal) return null;
+
+  const grade = firstMatch(block, /<grade>(\d+)<\/grade>/);
+  const jlpt = firstMatch(block, /<jlpt>(\d)<\/jlpt>/);
+
+  return {
+    literal,
+    // English meanings have no m_lang attribute
+    meanings: Array.from(block.matchAll(/<meaning>([\s\S]*?)<\/meaning>/g), match => decodeXml(match[1])),
+    onyomi: Array.from(block.matchAll(/<reading r_type="ja_on">([\s\S]*?)<\/reading>/g), match => match[1]),
+    kunyomi: Array.from(block.matchAll(/<reading r_type="ja_kun">([\s\S]*?)<\/reading>/g), match => match[1]),
+    // The first stroke count is the accepted one; any others are common miscounts
+    strokes: Number(firstMatch(block, /<stroke_count>(\d+)<\/stroke_count>/)) || 0,
+    grade: grade ? Number(grade) : null,
+    jlpt: jlpt ? OLD_JLPT_LEVELS[jlpt] || null : null,
+  };
+};
+
+export async function* parseKanjidicXml(input: Readable): AsyncGenerator<KanjiInfo> {
+  let buffer = '';
+  input.setEncoding('utf8');
+  for await (const chunk of input) {
+    buffer += chunk;
+    let end = buffer.indexOf('</character>');
+    while (end !== -1) {
+      const start = buffer.indexOf('<character>');
+      const kanji = parseCharacter(buffer.slice(start, end));
+      if (kanji) yield kanji;
+      buffer = buffer.slice(end + '</character>'.length);
+      end = buffer.indexOf('</character>');
+    }
+  }
+}
+
+// Reads kanjidic2.xml, optionally gzipped
+export function readKanjidicFile(file: string): AsyncGenerator<KanjiInfo> {
+  const stream = createReadStream(file);
+  return parseKanjidicXml(file.endsWith('.gz') ? stream.pipe(createGunzip()) : stream);
+}
@@ -0,0 +1,20 @@
+import type { JlptLevel } from '../jlpt/levels';
+
+export interface KanjiInfo {
+  literal: string;
+  meanings: string[];
+  // On readings in katakana, kun readings in hiragana with a "." before the okurigana
+  onyomi: string[];
+  kunyomi: string[];
+  strokes: number;
+  // 1-6 for the kanji taught in elementary school, 8 for the rest of the
+  // jouyou set, 9-10 for jinmeiyou
+  grade: number | null;
+  jlpt: JlptLevel | null;
+}
+
+export interface KanjiCount {
+  literal: string;
+  count: number;
+  info: KanjiInfo | null;
+}
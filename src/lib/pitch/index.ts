@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as wanakana from 'wanakana';
+
+export { pitchLevels, pitchPatternName, splitMorae, type PitchPatternName } from './pattern';
+
+// Tab-separated word, reading and accent, the layout of Kanjium's
+// accents.txt. Nothing is bundled; see the README.
+export const DEFAULT_PITCH_PATH = process.env.PITCH_DATA_PATH
+  || path.join(process.cwd(), 'data', 'pitch', 'accents.tsv');
+
+export interface PitchData {
+  // Accents for the word read this way, most common first
+  lookup(word: string, reading: string): number[];
+}
+
+export function parseAccentList(text: string): PitchData {
+  const byWord = new Map<string, Map<string, number[]>>();
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+    const [word, reading, accents] = line.split('\t');
+    if (!word || accents === undefined) continue;
+    // Kana-only words leave the reading column empty in Kanjium's list
+    const kana = wanakana.toHiragana(reading || word);
+    const values = accents.split(',')
+      .map(value => parseInt(value.replace(/\D/g, ''), 10))
+      .filter(value => !isNaN(value));
+    if (values.length === 0) continue;
+
+    const readings = byWord.get(word) || new Map<string, number[]>();
+    if (!readings.has(kana)) readings.set(kana, values);
+    byWord.set(word, readings);
+  }
+
+  return {
+    lookup(word, reading) {
+      // Readings of unknown words fall back to romaji, which converts back
+      return byWord.get(word)?.get(wanakana.toHiragana(reading)) || [];
+    },
+  };
+}
+
+let pitchData: Promise<PitchData> | null = null;
+
+// Loaded once per process; a missing file just means no accents
+export function getPitchData(): Promise<PitchData> {
+  pitchData ||= fs.readFile(DEFAULT_PITCH_PATH, 'utf8')
+    .catch(() => '')
+    .then(parseAccentList);
+  return pitchData;
+}
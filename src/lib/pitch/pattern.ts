@@ -0,0 +1,34 @@
+// Small kana merge with the mora before them (きょ, ファ); っ, ん and ー are
+// morae of their own
+const SMALL_KANA = /^[ゃゅょぁぃぅぇぉゎャュョァィゥェォヮ]$/;
+
+export type PitchPatternName = 'heiban' | 'atamadaka' | 'nakadaka' | 'odaka';
+
+export function splitMorae(kana: string): string[] {
+  const morae: string[] = [];
+  for (const char of kana) {
+    if (SMALL_KANA.test(char) && morae.length > 0) {
+      morae[morae.length - 1] += char;
+    } else {
+      morae.push(char);
+    }
+  }
+  return morae;
+}
+
+// High (true) or low pitch for each mora, plus one more entry for a
+// following particle. The accent is the mora after which the pitch drops;
+// 0 means it never drops.
+export function pitchLevels(moraCount: number, accent: number): boolean[] {
+  return Array.from({ length: moraCount + 1 }, (_, index) => {
+    if (accent === 1) return index === 0;
+    if (index === 0) return false;
+    return accent === 0 || index < accent;
+  });
+}
+
+export function pitchPatternName(moraCount: number, accent: number): PitchPatternName {
+  if (accent === 0) return 'heiban';
+  if (accent === 1) return 'atamadaka';
+  return accent >= moraCount ? 'odaka' : 'nakadaka';
+}
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { formatInterval, newReviewState, schedule } from './schedule';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2024, 0, 1);
+
+test('brings a failed card back ten minutes later', () => {
+  const reviewed = schedule(newReviewState(now), 'good', now);
+  const failed = schedule(reviewed, 'again', now + DAY);
+  assert.equal(failed.due, now + DAY + 10 * 60 * 1000);
+  assert.equal(failed.interval, 0);
+  assert.equal(failed.repetitions, 0);
+  assert.equal(failed.lapses, 1);
+  assert.equal(formatInterval(now + DAY, failed.due), '10m');
+});
+
+test("doesn't count failing a new card as a lapse", () => {
+  const failed = schedule(newReviewState(now), 'again', now);
+  assert.equal(failed.lapses, 0);
+  assert.equal(failed.ease, 2.3);
+});
+
+test('grows intervals with each successful review', () => {
+  let state = newReviewState(now);
+  const intervals: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    state = schedule(state, 'good', state.due);
+    intervals.push(state.interval);
+  }
+  assert.deepEqual(intervals, [1, 3, 8, 20]);
+  assert.equal(state.repetitions, 4);
+});
+
+test('starts easy cards further out and raises their ease', () => {
+  const state = schedule(newReviewState(now), 'easy', now);
+  assert.equal(state.interval, 4);
+  assert.equal(state.ease, 2.65);
+  assert.equal(state.due, now + 4 * DAY);
+});
+
+test('keeps ease above the minimum', () => {
+  let state = newReviewState(now);
+  for (let i = 0; i < 10; i++) state = schedule(state, 'hard', now);
+  assert.equal(state.ease, 1.3);
+  assert.ok(state.interval >= 1);
+});
+
+test('formats intervals for the grade buttons', () => {
+  assert.equal(formatInterval(now, now + 3 * DAY), '3d');
+  assert.equal(formatInterval(now, now + 90 * DAY), '3mo');
+  assert.equal(formatInterval(now, now + 547 * DAY), '1.5y');
+});
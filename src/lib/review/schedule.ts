@@ -0,0 +1,77 @@
+// SM-2 style scheduling, with Anki's four grades in place of SM-2's 0-5
+// scale. Intervals are in days.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: { value: ReviewGrade; label: string }[] = [
+  { value: 'again', label: 'Again' },
+  { value: 'hard', label: 'Hard' },
+  { value: 'good', label: 'Good' },
+  { value: 'easy', label: 'Easy' },
+];
+
+export interface ReviewState {
+  ease: number;
+  interval: number;
+  // Successful reviews in a row
+  repetitions: number;
+  lapses: number;
+  due: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+// A failed card comes back later in the same session
+const RELEARN_DELAY = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const newReviewState = (now: number): ReviewState => ({
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now,
+});
+
+export function schedule(state: ReviewState, grade: ReviewGrade, now: number): ReviewState {
+  if (grade === 'again') {
+    return {
+      ease: Math.max(MIN_EASE, state.ease - 0.2),
+      interval: 0,
+      repetitions: 0,
+      lapses: state.lapses + (state.repetitions > 0 ? 1 : 0),
+      due: now + RELEARN_DELAY,
+    };
+  }
+
+  let interval: number;
+  let ease = state.ease;
+  if (grade === 'hard') {
+    interval = Math.max(1, Math.round(state.interval * 1.2));
+    ease = Math.max(MIN_EASE, ease - 0.15);
+  } else if (state.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (state.repetitions === 1) {
+    interval = Math.max(grade === 'easy' ? 6 : 3, state.interval + 1);
+  } else {
+    interval = Math.max(state.interval + 1, Math.round(state.interval * ease * (grade === 'easy' ? 1.3 : 1)));
+  }
+  if (grade === 'easy') ease += 0.15;
+
+  return {
+    ease,
+    interval,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    due: now + interval * DAY,
+  };
+}
+
+// "10m", "1d", "3mo" for the grade buttons
+export function formatInterval(from: number, to: number): string {
+  const minutes = Math.round((to - from) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const days = Math.round(minutes / 1440);
+  if (days < 30) return `${Math.max(1, days)}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
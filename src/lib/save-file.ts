@@ -0,0 +1,56 @@
+interface FileSystemHandle {
+  createWritable(): Promise<FileSystemWritableFileStream>;
+}
+
+declare global {
+  interface Window {
+    showSaveFilePicker(options?: {
+      suggestedName?: string;
+      types?: Array<{
+        description?: string;
+        accept: Record<string, string[]>;
+      }>;
+    }): Promise<FileSystemHandle>;
+  }
+}
+
+// Saves a blob with the browser's save dialog where supported, falling back
+// to a plain download link elsewhere
+export async function saveFile(
+  blob: Blob,
+  suggestedName: string,
+  type: { description: string; mimeType: string; extension: string }
+) {
+  try {
+    // Show save dialog
+    const handle = await window.showSaveFilePicker({
+      suggestedName,
+      types: [{
+        description: type.description,
+        accept: {
+          [type.mimeType]: [`.${type.extension}`],
+        },
+      }],
+    });
+
+    // Create a FileSystemWritableFileStream to write to
+    const writable = await handle.createWritable();
+    // Write the contents of the file to the stream
+    await writable.write(blob);
+    // Close the file and write the contents to disk
+    await writable.close();
+  } catch (err: unknown) {
+    // If the user cancels the save dialog, we don't need to show an error
+    if (err instanceof Error && err.name === 'AbortError') return;
+    // Fallback to direct download if the save dialog API is not supported
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', suggestedName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+}
@@ -0,0 +1,19 @@
+// Reads Japanese text aloud with the Web Speech API. Browsers without a
+// Japanese voice still try with the lang hint, which some map to a
+// downloadable voice.
+export const canSpeak = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+const japaneseVoice = () =>
+  window.speechSynthesis.getVoices().find(voice => voice.lang.replace('_', '-').startsWith('ja'));
+
+export function speakJapanese(text: string) {
+  if (!canSpeak() || !text) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'ja-JP';
+  const voice = japaneseVoice();
+  if (voice) utterance.voice = voice;
+  // Cut off whatever is still playing rather than queueing behind it
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+}
@@ -0,0 +1,109 @@
+// Local persistence for the browser, backed by a single IndexedDB database.
+// Each feature owns an object store; bump DB_VERSION and add the store in
+// upgrade() when adding a new one.
+
+const DB_NAME = 'luminos';
+const DB_VERSION = 3;
+
+export const STORES = {
+  knownWords: 'knownWords',
+  analyses: 'analyses',
+  reviews: 'reviews',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// An open tab still on an older DB_VERSION holds off the upgrade until it
+// closes its connection
+export class DatabaseBlockedError extends Error {
+  constructor() {
+    super('Saved data could not be loaded because Luminos is open in another tab. Close the other tab and reload.');
+    this.name = 'DatabaseBlockedError';
+  }
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.knownWords)) {
+    db.createObjectStore(STORES.knownWords, { keyPath: 'word' });
+  }
+  if (!db.objectStoreNames.contains(STORES.analyses)) {
+    db.createObjectStore(STORES.analyses, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.reviews)) {
+    db.createObjectStore(STORES.reviews, { keyPath: 'word' });
+  }
+};
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let blocked = false;
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => {
+        const db = request.result;
+        // The request stays pending after a block and can still succeed once
+        // the other tab lets go; nobody holds this connection by then
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Step aside when a newer version of the app opens the database
+        // in another tab, so its upgrade isn't blocked by this one
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => {
+        blocked = true;
+        reject(new DatabaseBlockedError());
+      };
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDatabase();
+  return promisify(db.transaction(store).objectStore(store).get(key) as IDBRequest<T | undefined>);
+}
+
+export async function putAll<T>(store: StoreName, values: T[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  values.forEach(value => objectStore.put(value));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function remove(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+}
+
+export async function clear(store: StoreName): Promise<void> {
+  const db = await openDatabase();
+  await promisify(db.transaction(store, 'readwrite').objectStore(store).clear());
+}
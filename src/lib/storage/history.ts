@@ -0,0 +1,75 @@
+import type { AnalysisResult } from '../analysis/types';
+import { STORES, get, getAll, putAll, remove } from './db';
+
+export interface SavedAnalysis {
+  id: string;
+  // Source URL, or the file name for uploads; empty for pasted text
+  source: string;
+  title: string;
+  createdAt: number;
+  result: AnalysisResult;
+}
+
+export interface LibrarySource {
+  id: string;
+  title: string;
+  source: string;
+}
+
+export interface LibraryWord {
+  word: string;
+  reading: string;
+  definition: string;
+  // Occurrences summed over every saved analysis
+  count: number;
+  firstSeen: number;
+  sources: LibrarySource[];
+}
+
+export async function saveAnalysis(source: string, result: AnalysisResult): Promise<SavedAnalysis> {
+  const createdAt = Date.now();
+  const analysis: SavedAnalysis = {
+    id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    source,
+    title: result.article.title || source || 'Pasted text',
+    createdAt,
+    result,
+  };
+  await putAll<SavedAnalysis>(STORES.analyses, [analysis]);
+  return analysis;
+}
+
+// Newest first
+export async function getAnalyses(): Promise<SavedAnalysis[]> {
+  const analyses = await getAll<SavedAnalysis>(STORES.analyses);
+  return analyses.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export const getAnalysis = (id: string) => get<SavedAnalysis>(STORES.analyses, id);
+
+export const removeAnalysis = (id: string) => remove(STORES.analyses, id);
+
+// Merges the word lists of all saved analyses, most frequent first. Reading
+// and definition come from the earliest analysis the word appeared in.
+export function buildLibrary(analyses: SavedAnalysis[]): LibraryWord[] {
+  const library = new Map<string, LibraryWord>();
+  [...analyses].sort((a, b) => a.createdAt - b.createdAt).forEach(({ id, title, source, createdAt, result }) => {
+    result.words.forEach(({ word, reading, definition, count }) => {
+      const entry = library.get(word);
+      if (entry) {
+        entry.count += count;
+        entry.sources.push({ id, title, source });
+      } else {
+        library.set(word, {
+          word,
+          reading,
+          definition,
+          count,
+          firstSeen: createdAt,
+          sources: [{ id, title, source }],
+        });
+      }
+    });
+  });
+  return Array.from(library.values()).sort((a, b) => b.count - a.count || a.firstSeen - b.firstSeen);
+}
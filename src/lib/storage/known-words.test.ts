@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseWordList } from './known-words';
+
+test('reads one word per line, dropping duplicates and lines without Japanese', () => {
+  assert.deepEqual(parseWordList('猫\r\n犬\n\ncat\n猫\n'), ['猫', '犬']);
+});
+
+test('takes the first column of tab- and comma-separated lines', () => {
+  assert.deepEqual(parseWordList('食べる\tto eat\n飲む,to drink'), ['食べる', '飲む']);
+});
+
+test('reads quoted CSV columns', () => {
+  assert.deepEqual(parseWordList('"お茶, 緑",green tea\n"「本」""",book'), ['お茶,緑', '「本」"']);
+});
+
+test('cleans up Anki text exports', () => {
+  const exported = [
+    '#separator:tab',
+    '#html:true',
+    '<b>食[た]べる</b>\tto eat',
+    '日本語[にほんご]&nbsp;\tJapanese',
+  ].join('\n');
+  assert.deepEqual(parseWordList(exported), ['食べる', '日本語']);
+});
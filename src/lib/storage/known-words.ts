@@ -0,0 +1,46 @@
+import { STORES, clear, getAll, putAll } from './db';
+
+export interface KnownWord {
+  word: string;
+  addedAt: number;
+  source: 'manual' | 'import';
+}
+
+export async function getKnownWords(): Promise<string[]> {
+  const words = await getAll<KnownWord>(STORES.knownWords);
+  return words.map(({ word }) => word);
+}
+
+export async function addKnownWords(words: string[], source: KnownWord['source'] = 'manual') {
+  const addedAt = Date.now();
+  await putAll<KnownWord>(STORES.knownWords, words.map(word => ({ word, addedAt, source })));
+}
+
+export const clearKnownWords = () => clear(STORES.knownWords);
+
+// A quoted CSV column may contain separators, and "" stands for a quote
+const firstColumn = (line: string) => {
+  const quoted = /^\s*"((?:[^"]|"")*)"/.exec(line);
+  return quoted ? quoted[1].replace(/""/g, '"') : line.split(/[\t,]/)[0];
+};
+
+// Pulls the headword out of a line of a word list or an Anki text export:
+// the first tab- or comma-separated column, without HTML or Anki furigana
+// (食[た]べる -> 食べる)
+export const normalizeListEntry = (entry: string) =>
+  firstColumn(entry)
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\s+/g, '')
+    .trim();
+
+export function parseWordList(text: string): string[] {
+  const words = text
+    .split(/\r?\n/)
+    // Anki text exports start with "#separator:tab" style header lines
+    .filter(line => !line.startsWith('#'))
+    .map(normalizeListEntry)
+    .filter(word => /[ぁ-ゖァ-ヺ一-龯々]/.test(word));
+  return Array.from(new Set(words));
+}
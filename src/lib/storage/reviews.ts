@@ -0,0 +1,95 @@
+import type { ExampleSentence, WordResult } from '../analysis/types';
+import { newReviewState, schedule, type ReviewGrade, type ReviewState } from '../review/schedule';
+import { STORES, getAll, putAll, remove } from './db';
+
+export interface ReviewCard extends ReviewState {
+  word: string;
+  reading: string;
+  definition: string;
+  partOfSpeech: string;
+  example: ExampleSentence | null;
+  // Title of the article the word was added from
+  source: string;
+  addedAt: number;
+  history: { at: number; grade: ReviewGrade }[];
+}
+
+export interface ReviewStats {
+  total: number;
+  due: number;
+  // Cards never reviewed yet
+  unseen: number;
+  reviewedToday: number;
+  // Share of today's reviews not graded "again", null before the first one
+  retentionToday: number | null;
+}
+
+// Unseen cards introduced per day, so a big import doesn't flood one session
+export const NEW_CARDS_PER_DAY = 20;
+
+const startOfDay = (now: number) => new Date(now).setHours(0, 0, 0, 0);
+
+export const getReviewCards = () => getAll<ReviewCard>(STORES.reviews);
+
+// Words already in the deck keep their schedule; returns how many were new
+export async function addReviewCards(words: WordResult[], source: string): Promise<number> {
+  const existing = new Set((await getReviewCards()).map(({ word }) => word));
+  const now = Date.now();
+  const cards = words
+    .filter(({ word }) => !existing.has(word))
+    .map<ReviewCard>(({ word, reading, definition, partOfSpeech, examples }) => ({
+      ...newReviewState(now),
+      word,
+      reading,
+      definition,
+      partOfSpeech,
+      example: examples[0] || null,
+      source,
+      addedAt: now,
+      history: [],
+    }));
+  await putAll<ReviewCard>(STORES.reviews, cards);
+  return cards.length;
+}
+
+export async function gradeReviewCard(card: ReviewCard, grade: ReviewGrade): Promise<ReviewCard> {
+  const now = Date.now();
+  const graded: ReviewCard = {
+    ...card,
+    ...schedule(card, grade, now),
+    history: [...card.history, { at: now, grade }],
+  };
+  await putAll<ReviewCard>(STORES.reviews, [graded]);
+  return graded;
+}
+
+export const removeReviewCard = (word: string) => remove(STORES.reviews, word);
+
+// Today's session: every seen card that is due, oldest first, then unseen
+// cards in the order they were added, up to what's left of the daily limit
+export function dueCards(cards: ReviewCard[], now: number): ReviewCard[] {
+  const dayStart = startOfDay(now);
+  const introducedToday = cards.filter(({ history }) => history[0]?.at >= dayStart).length;
+  const seen = cards
+    .filter(({ history, due }) => history.length > 0 && due <= now)
+    .sort((a, b) => a.due - b.due);
+  const unseen = cards
+    .filter(({ history }) => history.length === 0)
+    .sort((a, b) => a.addedAt - b.addedAt)
+    .slice(0, Math.max(0, NEW_CARDS_PER_DAY - introducedToday));
+  return [...seen, ...unseen];
+}
+
+export function reviewStats(cards: ReviewCard[], now: number): ReviewStats {
+  const dayStart = startOfDay(now);
+  const today = cards.flatMap(({ history }) => history.filter(({ at }) => at >= dayStart));
+  return {
+    total: cards.length,
+    due: dueCards(cards, now).length,
+    unseen: cards.filter(({ history }) => history.length === 0).length,
+    reviewedToday: today.length,
+    retentionToday: today.length
+      ? today.filter(({ grade }) => grade !== 'again').length / today.length
+      : null,
+  };
+}
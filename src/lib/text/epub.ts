@@ -0,0 +1,61 @@
+import * as cheerio from 'cheerio';
+import JSZip from 'jszip';
+import path from 'path';
+
+export interface EpubText {
+  title: string;
+  chapters: string[][];
+}
+
+// Text blocks of a chapter; a div counts only when it holds no other blocks
+const PARAGRAPH_SELECTOR = 'p, h1, h2, h3, h4, li, div:not(:has(p, div))';
+
+const readEntry = async (zip: JSZip, name: string) => {
+  const file = zip.file(name);
+  if (!file) throw new Error(`EPUB is missing ${name}`);
+  return file.async('string');
+};
+
+// Reads the chapters of an EPUB in reading (spine) order, one array of
+// paragraphs per chapter.
+export async function readEpub(bytes: Uint8Array): Promise<EpubText> {
+  const zip = await JSZip.loadAsync(bytes);
+
+  const container = cheerio.load(await readEntry(zip, 'META-INF/container.xml'), { xml: true });
+  const opfPath = container('rootfile').attr('full-path');
+  if (!opfPath) throw new Error('EPUB container does not name a package file');
+
+  const opf = cheerio.load(await readEntry(zip, opfPath), { xml: true });
+  const baseDir = path.posix.dirname(opfPath);
+
+  const manifest = new Map<string, string>();
+  opf('manifest > item').each((_, item) => {
+    const $item = opf(item);
+    const id = $item.attr('id');
+    const href = $item.attr('href');
+    if (id && href) {
+      manifest.set(id, path.posix.join(baseDir, decodeURIComponent(href)));
+    }
+  });
+
+  const chapters: string[][] = [];
+  for (const itemref of opf('spine > itemref').toArray()) {
+    const href = manifest.get(opf(itemref).attr('idref') || '');
+    if (!href || !zip.file(href)) continue;
+
+    const $ = cheerio.load(await readEntry(zip, href));
+    // Furigana would otherwise be read as part of the sentence
+    $('rt, rp, script, style').remove();
+    const paragraphs = $('body').find(PARAGRAPH_SELECTOR).toArray()
+      // Skip blocks nested inside another block so their text isn't read twice
+      .filter(el => $(el).parentsUntil('body').filter(PARAGRAPH_SELECTOR).length === 0)
+      .map(el => $(el).text().replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+    if (paragraphs.length > 0) chapters.push(paragraphs);
+  }
+
+  return {
+    title: opf('dc\\:title, title').first().text().trim(),
+    chapters,
+  };
+}
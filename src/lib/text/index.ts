@@ -0,0 +1,64 @@
+import { extractContent } from '../extract';
+import { decodeHtml } from '../fetch/charset';
+import { readEpub } from './epub';
+import { subtitlesToText } from './subtitles';
+
+export type FileFormat = 'text' | 'html' | 'subtitles' | 'epub';
+
+export interface ExtractedText {
+  format: FileFormat;
+  title: string;
+  paragraphs: string[];
+  content: string;
+}
+
+export const SUPPORTED_EXTENSIONS: Record<string, FileFormat> = {
+  '.txt': 'text',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xhtml': 'html',
+  '.srt': 'subtitles',
+  '.vtt': 'subtitles',
+  '.epub': 'epub',
+};
+
+export class UnsupportedFileError extends Error {
+  constructor(name: string) {
+    super(`Unsupported file type: ${name}. Use ${Object.keys(SUPPORTED_EXTENSIONS).join(', ')}`);
+    this.name = 'UnsupportedFileError';
+  }
+}
+
+export const formatFor = (name: string): FileFormat | null => {
+  const extension = name.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] || '';
+  return SUPPORTED_EXTENSIONS[extension] || null;
+};
+
+const splitLines = (text: string) =>
+  text.split(/\n+/).map(line => line.trim()).filter(Boolean);
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Normalizes an uploaded file to plain text for analysis. Text-based formats
+// go through the same charset detection as fetched pages, so Shift_JIS
+// subtitle and text files decode correctly.
+export async function extractFileText(name: string, bytes: Uint8Array): Promise<ExtractedText> {
+  const format = formatFor(name);
+  if (!format) throw new UnsupportedFileError(name);
+
+  if (format === 'epub') {
+    const { title, chapters } = await readEpub(bytes);
+    const paragraphs = chapters.flat();
+    return { format, title: title || stripExtension(name), paragraphs, content: paragraphs.join('\n') };
+  }
+
+  const { html: text } = decodeHtml(bytes, null);
+
+  if (format === 'html') {
+    const { title, paragraphs, content } = extractContent(text, '', 'article');
+    return { format, title: title || stripExtension(name), paragraphs, content };
+  }
+
+  const paragraphs = splitLines(format === 'subtitles' ? subtitlesToText(text) : text);
+  return { format, title: stripExtension(name), paragraphs, content: paragraphs.join('\n') };
+}
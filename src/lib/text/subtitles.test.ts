@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { subtitlesToText } from './subtitles';
+
+test('keeps only the dialogue of SRT cues', () => {
+  const srt = [
+    '1',
+    '00:00:01,000 --> 00:00:03,000',
+    '<i>おはよう</i>',
+    '',
+    '2',
+    '00:00:03,500 --> 00:00:05,000',
+    '{\\an8}元気？',
+    '今日は暑いね',
+    '',
+  ].join('\r\n');
+  assert.equal(subtitlesToText(srt), 'おはよう\n元気？\n今日は暑いね');
+});
+
+test('skips WebVTT headers, notes and styles', () => {
+  const vtt = [
+    'WEBVTT',
+    '',
+    'NOTE written by hand',
+    '',
+    'STYLE',
+    '::cue { color: yellow }',
+    '',
+    'intro',
+    '00:01.000 --> 00:02.000 align:start',
+    '<c.yellow>こんにちは</c> &amp; <00:00:01.500>さようなら',
+  ].join('\n');
+  assert.equal(subtitlesToText(vtt), 'こんにちは & さようなら');
+});
+
+test('keeps a line repeated by rolling captions once', () => {
+  const vtt = [
+    'WEBVTT',
+    '',
+    '00:00:01.000 --> 00:00:02.000',
+    '雨が降っている',
+    '',
+    '00:00:02.000 --> 00:00:03.000',
+    '雨が降っている',
+    '傘を持っていこう',
+  ].join('\n');
+  assert.equal(subtitlesToText(vtt), '雨が降っている\n傘を持っていこう');
+});
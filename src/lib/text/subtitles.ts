@@ -0,0 +1,41 @@
+// Turns SRT or WebVTT subtitles into plain text: one line per cue, with cue
+// numbers, timestamps, settings and styling tags removed.
+
+const TIMESTAMP_LINE = /^\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{3}\s*-->/;
+
+const stripCueMarkup = (line: string) =>
+  line
+    // <i>, <c.yellow>, <ruby>, and inline <00:00:01.000> karaoke timestamps
+    .replace(/<[^>]*>/g, '')
+    // ASS-style overrides that some SRT files carry, e.g. {\an8}
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .trim();
+
+export function subtitlesToText(source: string): string {
+  const blocks = source.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const lines: string[] = [];
+
+  for (const block of blocks) {
+    const blockLines = block.split('\n');
+    const first = blockLines[0].trim();
+    // WebVTT header and metadata blocks carry no dialogue
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(first)) continue;
+
+    const timing = blockLines.findIndex(line => TIMESTAMP_LINE.test(line));
+    if (timing === -1) continue;
+
+    for (const line of blockLines.slice(timing + 1)) {
+      const text = stripCueMarkup(line);
+      // Rolling captions repeat the previous line; keep it once
+      if (text && text !== lines[lines.length - 1]) {
+        lines.push(text);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}